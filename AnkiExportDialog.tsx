@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { ExtractionResult } from './types';
+import { INSIGHT_FIELDS } from './groundingCitations';
+import { downloadFile } from './insightExport';
+import {
+  ANKI_EXTRA_PLACEHOLDERS, AnkiNote, AnkiNoteKind, AnkiSettings, AnkiTemplates, buildAnkiNotes, buildApkg,
+  DEFAULT_ANKI_SETTINGS, getAnkiSettings, notesToTsv, saveAnkiSettings
+} from './ankiExport';
+
+interface AnkiExportDialogProps {
+  result: ExtractionResult;
+  onClose: () => void;
+}
+
+const TEMPLATE_FIELDS: { key: keyof AnkiTemplates; kind: AnkiNoteKind; label: string }[] = [
+  { key: 'basicFront', kind: 'basic', label: 'Basic • Front' },
+  { key: 'basicBack', kind: 'basic', label: 'Basic • Back' },
+  { key: 'clozeText', kind: 'cloze', label: 'Cloze • Text' },
+  { key: 'clozeExtra', kind: 'cloze', label: 'Cloze • Back Extra' }
+];
+
+const NOTE_KIND_LABELS: Record<AnkiNoteKind, string> = {
+  basic: 'Basic (front / back)',
+  cloze: 'Cloze (key terms hidden)'
+};
+
+const AnkiExportDialog: React.FC<AnkiExportDialogProps> = ({ result, onClose }) => {
+  const [settings, setSettings] = useState<AnkiSettings>(getAnkiSettings);
+  const [notes, setNotes] = useState<AnkiNote[] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    saveAnkiSettings(settings);
+    let cancelled = false;
+    buildAnkiNotes(result, settings).then(built => {
+      if (!cancelled) setNotes(built);
+    });
+    return () => { cancelled = true; };
+  }, [result, settings]);
+
+  const setTemplate = (key: keyof AnkiTemplates, value: string) =>
+    setSettings(prev => ({ ...prev, templates: { ...prev.templates, [key]: value } }));
+
+  const fileBase = (result.examCode ? `${result.examCode} ` : '') + 'Anki';
+
+  const handleTsv = () => {
+    if (notes) downloadFile(`${fileBase}.txt`, notesToTsv(notes), 'text/tab-separated-values');
+  };
+
+  const handleApkg = async () => {
+    if (!notes) return;
+    setBusy(true);
+    try {
+      downloadFile(`${fileBase}.apkg`, await buildApkg(notes), 'application/octet-stream');
+    } catch (err: any) {
+      alert(err.message || 'Failed to build the Anki package.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const cardCount = notes?.length || 0;
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative w-full max-w-2xl max-h-full bg-slate-900 border border-slate-800 rounded-3xl p-8 shadow-2xl animate-in zoom-in duration-300 overflow-y-auto space-y-6">
+        <div className="flex justify-between items-center">
+          <h3 className="text-xl font-bold text-white flex items-center gap-3">
+            <i className="fa-solid fa-layer-group text-blue-400"></i>
+            Anki Deck Export
+          </h3>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+            <i className="fa-solid fa-xmark text-xl"></i>
+          </button>
+        </div>
+        <p className="text-xs text-slate-500">
+          {result.blocks.length} blocks • Notes keep the same id across exports, so re-importing updates existing cards instead of duplicating them.
+        </p>
+
+        <div className="grid grid-cols-2 gap-4">
+          <label className="space-y-1">
+            <span className="text-[10px] font-bold uppercase text-slate-500">Deck</span>
+            <input
+              value={settings.deckName}
+              onChange={(e) => setSettings(prev => ({ ...prev, deckName: e.target.value }))}
+              className="w-full bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 text-xs text-slate-300 outline-none focus:ring-1 focus:ring-blue-500/30"
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-[10px] font-bold uppercase text-slate-500">Tag Prefix</span>
+            <input
+              value={settings.tagPrefix}
+              onChange={(e) => setSettings(prev => ({ ...prev, tagPrefix: e.target.value }))}
+              className="w-full bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 text-xs text-slate-300 outline-none focus:ring-1 focus:ring-blue-500/30"
+            />
+          </label>
+        </div>
+
+        <div className="flex gap-6">
+          {(Object.keys(NOTE_KIND_LABELS) as AnkiNoteKind[]).map(kind => (
+            <label key={kind} className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.noteKinds[kind]}
+                onChange={(e) => setSettings(prev => ({ ...prev, noteKinds: { ...prev.noteKinds, [kind]: e.target.checked } }))}
+                className="accent-blue-500"
+              />
+              {NOTE_KIND_LABELS[kind]}
+            </label>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          {TEMPLATE_FIELDS.filter(f => settings.noteKinds[f.kind]).map(field => (
+            <label key={field.key} className="space-y-1">
+              <span className="text-[10px] font-bold uppercase text-slate-500">{field.label}</span>
+              <textarea
+                value={settings.templates[field.key]}
+                onChange={(e) => setTemplate(field.key, e.target.value)}
+                rows={3}
+                className="w-full bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 text-[11px] font-mono text-slate-300 outline-none focus:ring-1 focus:ring-blue-500/30 resize-none"
+              />
+            </label>
+          ))}
+        </div>
+        <p className="text-[10px] text-slate-600 leading-relaxed">
+          Placeholders: {[...INSIGHT_FIELDS, ...ANKI_EXTRA_PLACEHOLDERS].map(name => `{{${name}}}`).join(' ')}.
+          Use {'{{cloze:field}}'} to hide a field's key terms. Templates are HTML.
+        </p>
+
+        <div className="flex justify-between items-center gap-3">
+          <button
+            onClick={() => setSettings(DEFAULT_ANKI_SETTINGS)}
+            className="px-4 py-2 text-slate-500 hover:text-slate-300 text-[10px] font-bold uppercase tracking-widest"
+          >
+            Reset Templates
+          </button>
+          <div className="flex items-center gap-3">
+            <span className="text-[10px] font-bold uppercase text-slate-500">{notes ? `${cardCount} notes` : 'Building…'}</span>
+            <button
+              onClick={handleTsv}
+              disabled={!cardCount}
+              className="px-4 py-2.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-300 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all"
+            >
+              TSV
+            </button>
+            <button
+              onClick={handleApkg}
+              disabled={!cardCount || busy}
+              className="px-5 py-2.5 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-800 text-white rounded-xl text-[10px] font-black uppercase tracking-widest transition-all flex items-center gap-2"
+            >
+              {busy && <i className="fa-solid fa-spinner animate-spin"></i>}
+              .apkg
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default AnkiExportDialog;
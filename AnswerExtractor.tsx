@@ -1,23 +1,131 @@
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { cleanAndExtractAnswers } from './geminiService';
-import { ExtractedQuestion } from './types';
+import { isAbortError } from './modelCall';
+import { createOperationId } from './usageLedger';
+import { parsePracticeTest } from './practiceTestParser';
+import { getPdfPageCount, mergeChunkQuestions, needsChunking, splitPdf } from './pdfChunks';
+import { extractDocxText, extractHtmlText, getImportKind, IMPORT_ACCEPT, ImportTable, readCsvTable, readJsonTable } from './questionImport';
+import ImportMappingDialog from './ImportMappingDialog';
+import {
+  countUnpushed,
+  createScrapeSession,
+  deleteScrapeSession,
+  getPushKey,
+  listScrapeSessions,
+  saveScrapeSession,
+  SCRAPE_INPUT_ICONS,
+  ScrapeInputType,
+  ScrapeSession
+} from './scrapeSessions';
+import { ExtractedQuestion, ExtractionMode, InputAttachment, PageRange } from './types';
+import QuestionAnswerView, { QuestionTypeBadge } from './QuestionAnswerView';
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+const ACCEPTED_TYPES = ['application/pdf', ...IMAGE_TYPES];
+// Inline request parts are capped at 20 MB; base64 inflates the raw bytes by a third.
+// Long or page-restricted PDFs go out in page chunks, so the limit applies per request.
+const MAX_INLINE_BYTES = 20 * 1024 * 1024;
+
+// One cleaner call: a PDF page chunk, or the pasted text together with any images
+interface ExtractionJob {
+  label: string;
+  text: string;
+  attachments: InputAttachment[];
+}
+
+const requestBytes = (text: string, attachments: InputAttachment[]) =>
+  attachments.reduce((sum, a) => sum + a.data.length, text.length);
+
+// Correct mode leaves out wrongly answered questions, so either mode can come back empty
+const EMPTY_RESULT_MESSAGES: Record<ExtractionMode, string> = {
+  correct: 'No questions found. Wrongly answered ones are left out in this mode.',
+  mistakes: 'No incorrectly answered questions found.'
+};
+
+interface ChunkProgress {
+  done: number;
+  total: number;
+  label: string;
+}
 
 interface AnswerExtractorProps {
   onPush: (q: ExtractedQuestion) => void;
   isApiKeySet: boolean;
-  isStagingFull: boolean;
 }
 
-const AnswerExtractor: React.FC<AnswerExtractorProps> = ({ onPush, isApiKeySet, isStagingFull }) => {
+const AnswerExtractor: React.FC<AnswerExtractorProps> = ({ onPush, isApiKeySet }) => {
   const [input, setInput] = useState('');
-  const [pdfData, setPdfData] = useState<string | null>(null);
-  const [pdfName, setPdfName] = useState<string | null>(null);
+  const [attachments, setAttachments] = useState<InputAttachment[]>([]);
   const [loading, setLoading] = useState(false);
+  const [mode, setMode] = useState<ExtractionMode>('correct');
   const [results, setResults] = useState<ExtractedQuestion[]>([]);
   const [pushedIds, setPushedIds] = useState<Set<string>>(new Set());
   const [error, setError] = useState<string | null>(null);
+  // Which path produced the current results: a local parser adapter label, or null for the model
+  const [parsedBy, setParsedBy] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ChunkProgress | null>(null);
+  const [importTable, setImportTable] = useState<ImportTable | null>(null);
+  // The session the current results belong to; every change to results or push status is saved to it
+  const [session, setSession] = useState<ScrapeSession | null>(null);
+  const [history, setHistory] = useState<ScrapeSession[] | null>(null);
+  // Name of the last Word/HTML file imported into the text box, used as the session's source name
+  const [textSource, setTextSource] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Reopen the latest session so a reload or a trip to the Vault tab doesn't lose scraped questions
+  useEffect(() => {
+    listScrapeSessions().then(([latest]) => {
+      if (latest) openSession(latest);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!session || results.length === 0) return;
+    saveScrapeSession({ ...session, parsedBy, questions: results, pushedIds: Array.from(pushedIds) });
+  }, [session, results, pushedIds, parsedBy]);
+
+  const openSession = (s: ScrapeSession) => {
+    setSession(s);
+    setResults(s.questions);
+    setPushedIds(new Set(s.pushedIds));
+    setMode(s.mode);
+    setParsedBy(s.parsedBy);
+    setError(null);
+    setHistory(null);
+  };
+
+  const startSession = (sourceName: string, inputType: ScrapeInputType) => {
+    setSession(createScrapeSession(sourceName, inputType, mode));
+  };
+
+  const describeInput = (): { sourceName: string; inputType: ScrapeInputType } => {
+    const pdfs = attachments.filter(a => a.mimeType === 'application/pdf');
+    const images = attachments.filter(a => a.mimeType.startsWith('image/'));
+    if (attachments.length === 0) {
+      return textSource
+        ? { sourceName: textSource, inputType: 'document' }
+        : { sourceName: input.trim().split('\n')[0].slice(0, 60) || 'Pasted text', inputType: 'text' };
+    }
+    const names = attachments.map(a => a.name).join(', ');
+    if (images.length === 0) return { sourceName: names, inputType: 'pdf' };
+    if (pdfs.length === 0) return { sourceName: images.length > 1 ? `${images.length} screenshots` : names, inputType: 'image' };
+    return { sourceName: names, inputType: 'mixed' };
+  };
+
+  const toggleHistory = async () => {
+    setHistory(history ? null : await listScrapeSessions());
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    await deleteScrapeSession(id);
+    if (session?.id === id) {
+      setSession(null);
+      setResults([]);
+    }
+    setHistory(await listScrapeSessions());
+  };
 
   const fileToBase64 = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
@@ -31,124 +139,395 @@ const AnswerExtractor: React.FC<AnswerExtractorProps> = ({ onPush, isApiKeySet,
     });
   };
 
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file && file.type === 'application/pdf') {
+  // Documents become scraper text; spreadsheets and JSON go through the column mapping dialog instead
+  const importDocument = async (file: File) => {
+    const kind = getImportKind(file);
+    if (kind === 'csv' || kind === 'json') {
+      const text = await file.text();
+      setImportTable(kind === 'csv' ? readCsvTable(file.name, text) : readJsonTable(file.name, text));
+      return;
+    }
+    const text = kind === 'docx' ? await extractDocxText(await file.arrayBuffer()) : extractHtmlText(await file.text());
+    if (!text) throw new Error(`No text found in ${file.name}.`);
+    setInput(prev => prev.trim() ? `${prev.trim()}\n\n${text}` : text);
+    setTextSource(file.name);
+  };
+
+  const addFiles = async (files: File[]) => {
+    const documents = files.filter(file => getImportKind(file));
+    files = files.filter(file => !getImportKind(file));
+    for (const file of documents) {
       try {
-        setLoading(true);
-        const base64 = await fileToBase64(file);
-        setPdfData(base64);
-        setPdfName(file.name);
-        setInput('');
-        setError(null);
-      } catch (err) {
-        setError("Failed to read PDF file.");
-      } finally {
-        setLoading(false);
+        await importDocument(file);
+      } catch (err: any) {
+        setError(err.message || `Failed to import ${file.name}.`);
+        return;
+      }
+    }
+    if (files.length === 0) return;
+
+    const accepted = files.filter(file => ACCEPTED_TYPES.includes(file.type));
+    if (accepted.length < files.length) {
+      setError("Supported files: PDF, PNG, JPEG, WebP, DOCX, HTML, CSV and JSON.");
+      if (accepted.length === 0) return;
+    } else {
+      setError(null);
+    }
+
+    try {
+      setLoading(true);
+      const added = await Promise.all(accepted.map(async (file, i): Promise<InputAttachment> => {
+        const data = await fileToBase64(file);
+        // Encrypted or damaged PDFs can't be counted; they are sent whole as before
+        const pageCount = file.type === 'application/pdf' ? await getPdfPageCount(data).catch(() => undefined) : undefined;
+        return {
+          id: `${Date.now()}-${i}-${file.name}`,
+          name: file.name || `pasted-image-${i + 1}`,
+          mimeType: file.type,
+          data,
+          ...(pageCount ? { pageCount, pageRange: { start: 1, end: pageCount } } : {})
+        };
+      }));
+      const next = [...attachments, ...added];
+      // Chunked PDFs are checked per chunk when the jobs are built
+      if (requestBytes(input, next.filter(a => !needsChunking(a))) > MAX_INLINE_BYTES) {
+        setError("Attachments exceed the 20 MB request limit. Remove some files first.");
+        return;
       }
-    } else if (file) {
-      setError("Please upload a valid PDF document.");
+      setAttachments(next);
+    } catch (err) {
+      setError("Failed to read file.");
+    } finally {
+      setLoading(false);
     }
   };
 
-  const handleExtract = async () => {
-    if ((!input.trim() && !pdfData) || !isApiKeySet) return;
-    setLoading(true);
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length > 0) await addFiles(files);
+  };
+
+  // Screenshots pasted from the clipboard arrive as files; plain text pastes are left alone
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const images = Array.from(e.clipboardData.files).filter(file => IMAGE_TYPES.includes(file.type));
+    if (images.length === 0) return;
+    e.preventDefault();
+    addFiles(images);
+  };
+
+  const removeAttachment = (id: string) => {
+    setAttachments(prev => prev.filter(a => a.id !== id));
+  };
+
+  const updatePageRange = (id: string, edge: keyof PageRange, value: number) => {
+    setAttachments(prev => prev.map(a => {
+      if (a.id !== id || !a.pageCount || !a.pageRange) return a;
+      const page = Math.min(Math.max(Math.round(value) || 1, 1), a.pageCount);
+      const range = { ...a.pageRange, [edge]: page };
+      // Keep the range ordered by moving the other edge along with the one being edited
+      if (range.start > range.end) range[edge === 'start' ? 'end' : 'start'] = page;
+      return { ...a, pageRange: range };
+    }));
+  };
+
+  // Large or page-restricted PDFs become one job per chunk; everything else goes in a single call
+  const buildJobs = async (): Promise<ExtractionJob[]> => {
+    const jobs: ExtractionJob[] = [];
+    const inline = attachments.filter(a => !needsChunking(a));
+    if (input.trim() || inline.length > 0) {
+      jobs.push({ label: inline.length ? inline.map(a => a.name).join(', ') : 'Pasted text', text: input, attachments: inline });
+    }
+    for (const pdf of attachments.filter(needsChunking)) {
+      const chunks = await splitPdf(pdf.data, pdf.pageRange || { start: 1, end: pdf.pageCount! });
+      chunks.forEach(({ range, data }) => jobs.push({
+        label: `${pdf.name} p.${range.start}–${range.end}`,
+        text: '',
+        attachments: [{ ...pdf, id: `${pdf.id}-${range.start}`, data, pageRange: range }]
+      }));
+    }
+    const oversized = jobs.find(job => requestBytes(job.text, job.attachments) > MAX_INLINE_BYTES);
+    if (oversized) {
+      throw new Error(`${oversized.label} exceeds the 20 MB request limit. Remove some files or narrow the page range.`);
+    }
+    return jobs;
+  };
+
+  const handleExtract = async (forceModel = false) => {
+    if (!input.trim() && attachments.length === 0) return;
     setError(null);
     setPushedIds(new Set());
+
+    // Regularly formatted text is parsed locally; only unstructured input and attachments cost an API call
+    const local = !forceModel && attachments.length === 0 ? parsePracticeTest(input, mode) : null;
+    const { sourceName, inputType } = describeInput();
+    if (local) {
+      startSession(sourceName, inputType);
+      setResults(local.questions);
+      setParsedBy(local.adapter);
+      if (local.questions.length === 0) setError(EMPTY_RESULT_MESSAGES[mode]);
+      return;
+    }
+    if (!isApiKeySet) {
+      setError("Input format not recognised. Configure a model to clean it.");
+      return;
+    }
+
+    setLoading(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    startSession(sourceName, inputType);
+    setResults([]);
+    setParsedBy(null);
+    let jobs: ExtractionJob[] = [];
+    let current: ExtractionJob | null = null;
+    // Every chunk of a PDF shares one ledger operation so the run shows as a single scrape
+    const operationId = createOperationId('clean');
     try {
-      const questions = await cleanAndExtractAnswers(input, pdfData || undefined);
-      setResults(questions);
+      jobs = await buildJobs();
+      let combined: ExtractedQuestion[] = [];
+      for (const [i, job] of jobs.entries()) {
+        current = job;
+        if (jobs.length > 1) setProgress({ done: i, total: jobs.length, label: job.label });
+        const questions = await cleanAndExtractAnswers(job.text, job.attachments, { signal: controller.signal, operationId, mode });
+        // Results grow as chunks finish, so a failed or cancelled run keeps what it already found
+        combined = mergeChunkQuestions(combined, questions);
+        setResults(combined);
+      }
+      if (combined.length === 0) setError(EMPTY_RESULT_MESSAGES[mode]);
     } catch (err: any) {
-      setError(err.message || "Extraction failed.");
+      if (!isAbortError(err)) {
+        const message = err.message || "Extraction failed.";
+        setError(current && jobs.length > 1 ? `${current.label}: ${message}` : message);
+      }
     } finally {
+      setProgress(null);
+      abortRef.current = null;
       setLoading(false);
     }
   };
 
+  const handleTableImport = (questions: ExtractedQuestion[]) => {
+    startSession(importTable?.fileName || 'Imported table', 'table');
+    setResults(questions);
+    setParsedBy(`${importTable?.fileName} column mapping`);
+    setPushedIds(new Set());
+    setError(null);
+    setImportTable(null);
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
   const handlePushClick = (q: ExtractedQuestion) => {
-    if (isStagingFull) return;
     onPush(q);
-    setPushedIds(prev => new Set(prev).add(q.id || q.text));
+    setPushedIds(prev => new Set(prev).add(getPushKey(q)));
   };
 
-  const clearStagedFile = () => {
-    setPdfData(null);
-    setPdfName(null);
-    if (fileInputRef.current) fileInputRef.current.value = '';
+  // "New" skips questions pushed before; "all" restores a past session's questions even if the staged copies were cleared
+  const handlePushAll = (onlyNew: boolean) => {
+    results.filter(q => !onlyNew || !pushedIds.has(getPushKey(q))).forEach(handlePushClick);
   };
 
   return (
-    <div className="bg-slate-900/60 border border-slate-800 rounded-3xl overflow-hidden flex flex-col h-full shadow-2xl backdrop-blur-md">
+    <div onPaste={handlePaste} className="bg-slate-900/60 border border-slate-800 rounded-3xl overflow-hidden flex flex-col h-full shadow-2xl backdrop-blur-md">
       <div className="p-5 border-b border-slate-800 flex items-center justify-between bg-purple-600/5">
         <div className="flex items-center gap-3">
           <i className="fa-solid fa-broom-wide text-purple-400"></i>
           <span className="text-xs font-black uppercase tracking-widest text-slate-200">Answer Scraper</span>
         </div>
-        <i className="fa-solid fa-cloud-arrow-up text-slate-600"></i>
+        <button
+          onClick={toggleHistory}
+          disabled={loading}
+          className={`text-[10px] font-bold uppercase tracking-widest transition-colors ${history ? 'text-purple-400' : 'text-slate-600 hover:text-purple-400'}`}
+          title="Scrape history"
+        >
+          <i className="fa-solid fa-clock-rotate-left mr-1.5"></i>History
+        </button>
       </div>
 
       <div className="flex-1 flex flex-col p-5 gap-4 overflow-hidden">
-        {pdfData ? (
-          <div className="w-full h-32 bg-purple-500/10 border border-purple-500/20 rounded-2xl p-4 flex flex-col items-center justify-center gap-2 relative animate-in zoom-in duration-300">
-            <button onClick={clearStagedFile} className="absolute top-2 right-2 text-slate-500 hover:text-red-400 transition-colors">
-              <i className="fa-solid fa-circle-xmark"></i>
-            </button>
-            <i className="fa-solid fa-file-pdf text-3xl text-purple-400 mb-1"></i>
-            <p className="text-[10px] font-black text-white uppercase tracking-tighter truncate max-w-[180px]">{pdfName}</p>
-          </div>
-        ) : (
-          <div className="space-y-4">
-            <textarea
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              placeholder="Paste messy exam text here..."
-              className="w-full h-32 bg-slate-950 border border-slate-800 rounded-2xl p-4 text-xs text-slate-400 font-mono outline-none focus:ring-1 focus:ring-purple-500/30 transition-all resize-none placeholder:text-slate-800"
-            />
-            <button onClick={() => fileInputRef.current?.click()} className="w-full py-2 border border-dashed border-slate-800 rounded-xl text-slate-600 hover:text-purple-400 hover:border-purple-500/50 text-[10px] font-bold uppercase tracking-widest transition-all">
-              <i className="fa-solid fa-plus mr-2"></i>Upload PDF Instead
+        <div className="space-y-4">
+          {attachments.length > 0 && (
+            <div className="grid grid-cols-3 gap-2 animate-in zoom-in duration-300">
+              {attachments.map(attachment => (
+                <div key={attachment.id} className="relative h-20 bg-purple-500/10 border border-purple-500/20 rounded-xl overflow-hidden flex items-center justify-center" title={attachment.name}>
+                  {attachment.mimeType.startsWith('image/') ? (
+                    <img src={`data:${attachment.mimeType};base64,${attachment.data}`} alt={attachment.name} className="w-full h-full object-cover" />
+                  ) : (
+                    <div className="flex flex-col items-center gap-1 px-2">
+                      <i className="fa-solid fa-file-pdf text-2xl text-purple-400"></i>
+                      <p className="text-[8px] font-black text-white uppercase tracking-tighter truncate max-w-[80px]">{attachment.name}</p>
+                      {attachment.pageCount && <p className="text-[8px] font-bold text-slate-500 uppercase">{attachment.pageCount} pages</p>}
+                    </div>
+                  )}
+                  <button
+                    onClick={() => removeAttachment(attachment.id)}
+                    disabled={loading}
+                    className="absolute top-1 right-1 text-slate-400 hover:text-red-400 bg-slate-950/70 rounded-full leading-none transition-colors"
+                  >
+                    <i className="fa-solid fa-circle-xmark"></i>
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          {attachments.filter(a => a.pageCount && a.pageRange).map(pdf => (
+            <div key={pdf.id} className="flex items-center gap-2 text-[9px] font-bold uppercase tracking-widest text-slate-500">
+              <i className="fa-solid fa-file-pdf text-purple-400"></i>
+              <span className="truncate flex-1" title={pdf.name}>{pdf.name}</span>
+              <span>Pages</span>
+              {(['start', 'end'] as const).map((edge, i) => (
+                <React.Fragment key={edge}>
+                  {i > 0 && <span>–</span>}
+                  <input
+                    type="number"
+                    min={1}
+                    max={pdf.pageCount}
+                    value={pdf.pageRange![edge]}
+                    disabled={loading}
+                    onChange={(e) => updatePageRange(pdf.id, edge, Number(e.target.value))}
+                    className="w-12 bg-slate-950 border border-slate-800 rounded-md px-1.5 py-1 text-slate-300 text-center outline-none focus:ring-1 focus:ring-purple-500/30"
+                  />
+                </React.Fragment>
+              ))}
+              <span>of {pdf.pageCount}</span>
+            </div>
+          ))}
+          <textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder={attachments.length ? "Optional notes to go with the attachments..." : "Paste messy exam text or screenshots here..."}
+            className={`w-full ${attachments.length ? 'h-16' : 'h-32'} bg-slate-950 border border-slate-800 rounded-2xl p-4 text-xs text-slate-400 font-mono outline-none focus:ring-1 focus:ring-purple-500/30 transition-all resize-none placeholder:text-slate-800`}
+          />
+          <button onClick={() => fileInputRef.current?.click()} className="w-full py-2 border border-dashed border-slate-800 rounded-xl text-slate-600 hover:text-purple-400 hover:border-purple-500/50 text-[10px] font-bold uppercase tracking-widest transition-all">
+            <i className="fa-solid fa-plus mr-2"></i>Upload PDF, Screenshots or Question Bank
+          </button>
+          <input type="file" ref={fileInputRef} onChange={handleFileChange} accept={[...ACCEPTED_TYPES, IMPORT_ACCEPT].join(',')} multiple className="hidden" />
+        </div>
+
+        <div className="grid grid-cols-2 gap-1 bg-slate-950 border border-slate-800 p-1 rounded-xl">
+          {([['correct', 'Correct Answers'], ['mistakes', 'My Mistakes']] as const).map(([id, label]) => (
+            <button
+              key={id}
+              type="button"
+              disabled={loading}
+              onClick={() => { setMode(id); setResults([]); setSession(null); }}
+              className={`py-2 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${mode === id ? (id === 'mistakes' ? 'bg-red-500/10 text-red-400' : 'bg-purple-500/10 text-purple-400') : 'text-slate-600 hover:text-slate-400'}`}
+            >
+              {label}
             </button>
-            <input type="file" ref={fileInputRef} onChange={handleFileChange} accept="application/pdf" className="hidden" />
-          </div>
-        )}
+          ))}
+        </div>
 
         <button
-          onClick={handleExtract}
-          disabled={loading || (!input.trim() && !pdfData) || !isApiKeySet}
+          onClick={() => handleExtract()}
+          disabled={loading || (!input.trim() && attachments.length === 0) || (!isApiKeySet && attachments.length > 0)}
           className="w-full py-3.5 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-800 text-white text-[10px] font-black rounded-xl transition-all shadow-lg uppercase tracking-widest"
         >
           {loading ? <i className="fa-solid fa-spinner animate-spin mr-2"></i> : <i className="fa-solid fa-microchip mr-2"></i>}
-          {loading ? 'Cleaning Data...' : 'Scrape Correct Answers'}
+          {loading ? 'Cleaning Data...' : mode === 'mistakes' ? 'Scrape Mistakes' : 'Scrape Correct Answers'}
         </button>
 
+        {progress && (
+          <div className="space-y-1.5">
+            <div className="flex justify-between text-[9px] font-bold uppercase tracking-widest text-slate-500">
+              <span className="truncate" title={progress.label}>Chunk {progress.done + 1} of {progress.total}: {progress.label}</span>
+              <span>{Math.round((progress.done / progress.total) * 100)}%</span>
+            </div>
+            <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+              <div className="h-full bg-purple-500 transition-all duration-500" style={{ width: `${(progress.done / progress.total) * 100}%` }}></div>
+            </div>
+          </div>
+        )}
+
+        {loading && (
+          <button
+            onClick={handleCancel}
+            className="w-full py-2 bg-slate-800 hover:bg-red-900/30 text-slate-400 hover:text-red-400 text-[10px] font-black rounded-xl transition-all uppercase tracking-widest"
+          >
+            <i className="fa-solid fa-stop mr-2"></i>Cancel Scrape
+          </button>
+        )}
+
         {error && <p className="text-[10px] text-red-400 text-center font-bold uppercase">{error}</p>}
 
-        <div className="flex-1 overflow-y-auto space-y-3 pr-2 custom-scrollbar">
+        {history && (
+          <div className="flex-1 overflow-y-auto space-y-2 pr-2 custom-scrollbar">
+            <span className="text-[9px] font-black text-slate-600 uppercase tracking-widest px-1">Past Sessions: {history.length}</span>
+            {history.length === 0 && <p className="text-[10px] text-slate-600 px-1">No scrape sessions yet.</p>}
+            {history.map(s => {
+              const unpushed = countUnpushed(s);
+              return (
+                <div
+                  key={s.id}
+                  onClick={() => openSession(s)}
+                  className={`p-3 bg-slate-950 border rounded-xl flex items-center gap-3 cursor-pointer transition-colors ${session?.id === s.id ? 'border-purple-500/40' : 'border-slate-800 hover:border-slate-700'}`}
+                >
+                  <i className={`fa-solid ${SCRAPE_INPUT_ICONS[s.inputType]} text-purple-400`}></i>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-[10px] font-bold text-slate-300 truncate" title={s.sourceName}>{s.sourceName}</p>
+                    <p className="text-[9px] text-slate-600 uppercase font-bold tracking-widest">
+                      {new Date(s.createdAt).toLocaleString()} • {s.questions.length} Q
+                      {s.mode === 'mistakes' && <span className="text-red-400"> • Mistakes</span>}
+                      {unpushed > 0 && <span className="text-blue-400"> • {unpushed} unpushed</span>}
+                    </p>
+                  </div>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); handleDeleteSession(s.id); }}
+                    className="text-slate-700 hover:text-red-400 transition-colors"
+                    title="Delete session"
+                  >
+                    <i className="fa-solid fa-trash-can text-[10px]"></i>
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className={`flex-1 overflow-y-auto space-y-3 pr-2 custom-scrollbar ${history ? 'hidden' : ''}`}>
           {results.length > 0 && (
             <div className="flex justify-between items-center mb-2 px-1">
-              <span className="text-[9px] font-black text-slate-600 uppercase tracking-widest">Results: {results.length}</span>
-              <button onClick={() => setResults([])} className="text-[9px] text-slate-700 hover:text-red-400 font-bold uppercase">Clear List</button>
+              <div className="flex flex-col gap-0.5">
+                <span className="text-[9px] font-black text-slate-600 uppercase tracking-widest">Results: {results.length}</span>
+                {session && <span className="text-[8px] text-slate-600 truncate max-w-[180px]" title={session.sourceName}>{session.sourceName}</span>}
+                <span className={`text-[8px] font-bold uppercase tracking-widest ${parsedBy ? 'text-emerald-600' : 'text-purple-500'}`}>
+                  <i className={`fa-solid ${parsedBy ? 'fa-bolt' : 'fa-microchip'} mr-1`}></i>
+                  {parsedBy ? `Parsed locally: ${parsedBy} (no API call)` : 'Cleaned by model'}
+                </span>
+              </div>
+              <div className="flex gap-3">
+                {parsedBy && isApiKeySet && (
+                  <button onClick={() => handleExtract(true)} className="text-[9px] text-slate-700 hover:text-purple-400 font-bold uppercase">Use Model</button>
+                )}
+                {pushedIds.size > 0 && pushedIds.size < results.length && (
+                  <button onClick={() => handlePushAll(true)} className="text-[9px] text-slate-700 hover:text-blue-400 font-bold uppercase">Push New</button>
+                )}
+                <button onClick={() => handlePushAll(false)} className="text-[9px] text-slate-700 hover:text-blue-400 font-bold uppercase">Push All</button>
+                <button onClick={() => { setResults([]); setSession(null); }} className="text-[9px] text-slate-700 hover:text-red-400 font-bold uppercase">Clear List</button>
+              </div>
             </div>
           )}
 
           {results.map((q, idx) => {
-            const isPushed = pushedIds.has(q.id || q.text);
-            const buttonDisabled = isPushed || isStagingFull;
+            const isPushed = pushedIds.has(getPushKey(q));
 
             return (
               <div key={idx} className={`p-4 bg-slate-950 border ${isPushed ? 'border-emerald-500/20 opacity-60' : 'border-slate-800'} rounded-2xl space-y-3 transition-all animate-in slide-in-from-left-2`}>
+                <QuestionTypeBadge question={q} />
                 <p className={`text-[10px] ${isPushed ? 'text-slate-500' : 'text-slate-400'} line-clamp-3 leading-relaxed`}>{q.text}</p>
                 <div className="flex flex-col gap-2 border-t border-slate-900 pt-3">
-                  <span className="text-[9px] font-black text-emerald-500 uppercase px-2 py-0.5 bg-emerald-500/10 rounded w-fit self-start">Answer: {q.correctAnswer}</span>
+                  <QuestionAnswerView question={q} muted={isPushed} />
                   <button
-                    disabled={buttonDisabled}
                     onClick={() => handlePushClick(q)}
-                    className={`w-full py-2 text-[9px] font-black rounded-lg uppercase tracking-widest transition-all ${isPushed ? 'bg-emerald-500/10 text-emerald-500 border border-emerald-500/20' :
-                        isStagingFull ? 'bg-slate-800 text-slate-600 cursor-not-allowed border border-slate-700/50' :
-                          'bg-blue-500/5 text-blue-400 hover:bg-blue-400 hover:text-white'
+                    title={isPushed ? 'Push this question to the engine again' : undefined}
+                    className={`w-full py-2 text-[9px] font-black rounded-lg uppercase tracking-widest transition-all ${isPushed ? 'bg-emerald-500/10 text-emerald-500 border border-emerald-500/20 hover:bg-emerald-500/20' :
+                        'bg-blue-500/5 text-blue-400 hover:bg-blue-400 hover:text-white'
                       }`}
                   >
-                    {isPushed ? 'PUSHED SUCCESS' : isStagingFull ? 'STAGING FULL (6 MAX)' : 'PUSH TO ENGINE'}
+                    {isPushed ? 'PUSHED • PUSH AGAIN' : 'PUSH TO ENGINE'}
                   </button>
                 </div>
               </div>
@@ -156,6 +535,15 @@ const AnswerExtractor: React.FC<AnswerExtractorProps> = ({ onPush, isApiKeySet,
           })}
         </div>
       </div>
+
+      {importTable && (
+        <ImportMappingDialog
+          table={importTable}
+          mode={mode}
+          onImport={handleTableImport}
+          onClose={() => setImportTable(null)}
+        />
+      )}
     </div>
   );
 };
@@ -1,39 +1,87 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
-import { AZ104Question, ProcessingStatus, ExtractionResult, ExtractedQuestion } from './types';
-import { processInsights } from './geminiService';
-import { getQuestionHash, checkDuplicate, saveToVault } from './firebase';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { ExamQuestion, ProcessingStatus, ExtractionResult, ExtractedQuestion, ExamProfile, InsightBlock, StagedItem } from './types';
+import { getInsightVersionInfo, processInsights } from './geminiService';
+import { isProviderReady, isStreamingEnabled } from './llmProvider';
+import { isAbortError } from './modelCall';
+import { createOperationId } from './usageLedger';
+import { createStagedItem, loadStagedItems, saveStagedItems, stagedItemText, stagedItemsToText } from './stagingQueue';
+import { getActiveProfile, getAllProfiles, setActiveProfileId } from './examProfiles';
+import { getQuestionHash, checkDuplicate, saveMistakeToVault, saveToVault } from './firebase';
+import { getCachedInsight, putCachedInsight } from './insightCache';
+import { getCitedSources } from './groundingCitations';
+import { BatchQueue, BatchQueueState, ChunkFailure, createBatchQueue, getBatchSettings, mergeExtractionResults } from './batchQueue';
 import Header from './Header';
 import InputSection from './InputSection';
 import OutputSection from './OutputSection';
 import VaultView from './VaultView';
 import SettingsDrawer from './SettingsDrawer';
 import AnswerExtractor from './AnswerExtractor';
-
-const STORAGE_KEY_INPUT = 'analogical_insight_input';
+import BatchQueueStatus from './BatchQueueStatus';
+
+// A question in a processing run: short display id, cache/vault key and the cache version it is stored under
+interface RunItem {
+  id: string;
+  question: ExamQuestion;
+  hash: string;
+  version: string;
+}
+
+// A chunk that failed during a run, kept so it can be retried on its own
+interface FailedChunk {
+  id: number;
+  items: RunItem[];
+  operationId: string;
+  error: string;
+  retrying: boolean;
+}
+
+const toQuestion = (item: RunItem): ExamQuestion => ({ ...item.question, id: item.id });
+
+// Save to the local cache and, if Firebase is configured, the vault
+const persistBlocks = async (extraction: ExtractionResult, items: RunItem[]) => {
+  try {
+    for (const block of extraction.blocks || []) {
+      const item = items.find(it => it.id === block.sourceQuestionId);
+      if (item?.hash) {
+        await putCachedInsight(item.hash, item.version, extraction.domain, block, getCitedSources(block, extraction.sources));
+        if (block.mistake) {
+          await saveMistakeToVault(item.hash, extraction.domain, block.mistake, block.examEliminationCue);
+        } else {
+          await saveToVault(item.hash, extraction.domain, block.foundationalRule);
+        }
+      }
+    }
+  } catch (vaultErr) {
+    console.warn("Vault sync failed. Check Firebase config in Integration center.", vaultErr);
+  }
+};
 
 const App: React.FC = () => {
   const [view, setView] = useState<'generator' | 'vault'>('generator');
-  const [inputText, setInputText] = useState<string>(() => localStorage.getItem(STORAGE_KEY_INPUT) || '');
+  const [stagedItems, setStagedItems] = useState<StagedItem[]>(loadStagedItems);
   const [result, setResult] = useState<ExtractionResult | null>(null);
+  const [streamingResult, setStreamingResult] = useState<{ result: ExtractionResult; total: number } | null>(null);
   const [status, setStatus] = useState<ProcessingStatus>(ProcessingStatus.IDLE);
   const [error, setError] = useState<string | null>(null);
-  const [pendingBatch, setPendingBatch] = useState<any>(null);
+  const [pendingBatch, setPendingBatch] = useState<{ items: StagedItem[]; hashes: string[]; duplicateIndices: number[] } | null>(null);
   const [isEmbedded, setIsEmbedded] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
-
-  // Robust API key check - checks both localStorage and env
-  const checkApiKey = () => {
-    const localKey = localStorage.getItem('gemini_api_key');
-    const envKey = import.meta.env.VITE_API_KEY;
-    return !!(localKey || envKey);
-  };
-
-  const [isApiKeySet, setIsApiKeySet] = useState<boolean>(checkApiKey);
-
-  // Derived state for staging limit using pattern matching for "Question: " to be precise
-  const stagedCount = (inputText.match(/Question: /g) || []).length;
-  const isStagingFull = stagedCount >= 6;
+  const [forceRegenerate, setForceRegenerate] = useState(false);
+  const [profiles, setProfiles] = useState<ExamProfile[]>(getAllProfiles);
+  const [activeProfile, setActiveProfile] = useState<ExamProfile>(getActiveProfile);
+  const [queueState, setQueueState] = useState<BatchQueueState | null>(null);
+  const queueRef = useRef<BatchQueue<RunItem, ExtractionResult> | null>(null);
+  // Cancels the current run, including the hashing, duplicate check and cache lookup before the queue starts
+  const abortRef = useRef<AbortController | null>(null);
+  const [failedChunks, setFailedChunks] = useState<FailedChunk[]>([]);
+  // Questions of the last run, plus the blocks already written to the cache and vault and the domain each was filed under
+  const runItemsRef = useRef<RunItem[]>([]);
+  const savedBlocksRef = useRef(new WeakSet<InsightBlock>());
+  const blockDomainsRef = useRef(new Map<string, string>());
+
+  // Provider readiness check - Gemini needs a key, local and mock providers do not
+  const [isApiKeySet, setIsApiKeySet] = useState<boolean>(isProviderReady);
 
   useEffect(() => {
     setIsEmbedded(window.self !== window.top);
@@ -41,16 +89,31 @@ const App: React.FC = () => {
 
   useEffect(() => {
     const check = setInterval(() => {
-      setIsApiKeySet(checkApiKey());
+      setIsApiKeySet(isProviderReady());
     }, 2000);
     return () => clearInterval(check);
   }, []);
 
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY_INPUT, inputText);
-  }, [inputText]);
+    saveStagedItems(stagedItems);
+  }, [stagedItems]);
 
-  const executeProcessing = async (batch: string[], hashes: string[]) => {
+  const markSaved = (blocks: InsightBlock[], domain: string) => blocks.forEach(block => {
+    savedBlocksRef.current.add(block);
+    blockDomainsRef.current.set(block.sourceQuestionId, domain);
+  });
+
+  // Edits, regenerations and variant picks replace block objects; write those back so a reload or re-run keeps them
+  useEffect(() => {
+    if (!result) return;
+    result.blocks.filter(block => !savedBlocksRef.current.has(block)).forEach(block => {
+      const domain = blockDomainsRef.current.get(block.sourceQuestionId) || result.domain;
+      markSaved([block], domain);
+      persistBlocks({ domain, blocks: [block], sources: result.sources }, runItemsRef.current);
+    });
+  }, [result]);
+
+  const executeProcessing = async (batch: StagedItem[], hashes: string[]) => {
     if (batch.length === 0) {
       setError("No new questions to process.");
       setStatus(ProcessingStatus.IDLE);
@@ -67,51 +130,162 @@ const App: React.FC = () => {
     setStatus(ProcessingStatus.LOADING);
     setError(null);
     setPendingBatch(null);
+    setFailedChunks([]);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const { chunkSize, concurrency } = getBatchSettings();
+    const streaming = isStreamingEnabled();
+    const { examCode, promptVersion, cacheVersion, mistakeCacheVersion } = getInsightVersionInfo();
+    // All chunks of this run share one ledger operation so its cost shows as a single extraction
+    const operationId = createOperationId('insights');
+
+    // Short hash-derived ids let each returned block be matched back to its question
+    const items: RunItem[] = batch.map((staged, i) => ({
+      id: `q-${hashes[i].slice(0, 10)}-${i}`,
+      question: staged.question,
+      hash: hashes[i],
+      version: staged.question.userAnswer ? mistakeCacheVersion : cacheVersion
+    }));
+    runItemsRef.current = items;
+
+    // Serve previously processed questions from the local cache unless a fresh take was requested
+    const cachedEntries = forceRegenerate
+      ? items.map(() => null)
+      : await Promise.all(items.map(item => getCachedInsight(item.hash, item.version)));
+    if (controller.signal.aborted) {
+      setStatus(ProcessingStatus.IDLE);
+      return;
+    }
+    const cachedItems = items.filter((_, i) => cachedEntries[i]);
+    const uncachedItems = items.filter((_, i) => !cachedEntries[i]);
+    const hits = cachedEntries.filter((e): e is NonNullable<typeof e> => !!e);
+    const cachedResult: ExtractionResult | null = hits.length > 0 ? {
+      domain: Array.from(new Set(hits.map(e => e.domain))).join(' / '),
+      blocks: hits.map((e, i) => ({ ...e.block, sourceQuestionId: cachedItems[i].id })),
+      sources: hits.flatMap(e => e.sources),
+      questions: cachedItems.map(toQuestion),
+      examCode,
+      promptVersion,
+      cachedQuestionIds: cachedItems.map(item => item.id)
+    } : null;
+    cachedResult?.blocks.forEach((block, i) => markSaved([block], hits[i].domain));
+
+    // Completed or partially streamed result per chunk, merged in chunk order for display
+    const chunkViews: (ExtractionResult | undefined)[] = [];
+    const publishProgress = () => {
+      const views = chunkViews.filter((v): v is ExtractionResult => !!v);
+      setStreamingResult({ result: mergeExtractionResults(cachedResult ? [cachedResult, ...views] : views), total: batch.length });
+    };
+    if (cachedResult) publishProgress();
+
+    const queue = createBatchQueue({
+      items: uncachedItems,
+      chunkSize,
+      concurrency,
+      onStateChange: setQueueState,
+      process: (chunk, chunkIndex, signal) => {
+        return processInsights(chunk.map(toQuestion), {
+          signal,
+          operationId,
+          onPartial: streaming
+            ? partial => {
+              chunkViews[chunkIndex] = { domain: partial.domain || 'Resolving domain...', blocks: partial.blocks };
+              publishProgress();
+            }
+            : undefined
+        });
+      },
+      onChunkComplete: async (extraction, chunkIndex) => {
+        chunkViews[chunkIndex] = extraction;
+        publishProgress();
+        await persistBlocks(extraction, items);
+        markSaved(extraction.blocks || [], extraction.domain);
+      }
+    });
+    queueRef.current = queue;
+    controller.signal.addEventListener('abort', () => queue.cancel());
 
     try {
-      const formattedQuestions: AZ104Question[] = batch.map(rq => ({
-        text: rq,
-        correctAnswer: 'Verified',
-        explanation: 'Verified'
-      }));
-
-      const extraction = await processInsights(formattedQuestions);
-
-      // Save to vault if Firebase is configured
-      try {
-        for (let i = 0; i < (extraction.blocks || []).length; i++) {
-          if (hashes[i]) {
-            await saveToVault(hashes[i], extraction.domain, extraction.blocks[i].foundationalRule);
-          }
-        }
-      } catch (vaultErr) {
-        console.warn("Vault sync failed. Check Firebase config in Integration center.", vaultErr);
+      const { results: extractions, failures } = await queue.run();
+      const finished = cachedResult ? [cachedResult, ...extractions] : extractions;
+      // Nothing to show: report the failure as a whole so the batch can be processed again
+      if (finished.length === 0 && failures.length > 0) {
+        setError(failures[0].error.message || 'Processing failed. Try a smaller batch.');
+        setStatus(ProcessingStatus.ERROR);
+        return;
       }
-
-      setResult(extraction);
+      setResult({ ...mergeExtractionResults(finished), questionHashes: Object.fromEntries(items.map(item => [item.id, item.hash])) });
+      setFailedChunks(failures.map((failure: ChunkFailure<RunItem>) => ({
+        id: failure.chunkIndex,
+        items: failure.items,
+        operationId,
+        error: failure.error.message || 'Processing failed.',
+        retrying: false
+      })));
       setStatus(ProcessingStatus.SUCCESS);
     } catch (err: any) {
+      if (isAbortError(err)) {
+        setStatus(ProcessingStatus.IDLE);
+        return;
+      }
       setError(err.message || 'Processing failed. Try a smaller batch.');
       setStatus(ProcessingStatus.ERROR);
+    } finally {
+      queueRef.current = null;
+      setQueueState(null);
+      setStreamingResult(null);
+    }
+  };
+
+  const handleRetryChunk = async (id: number) => {
+    const chunk = failedChunks.find(c => c.id === id);
+    if (!chunk || chunk.retrying) return;
+
+    const setChunk = (changes: Partial<FailedChunk>) =>
+      setFailedChunks(prev => prev.map(c => (c.id === id ? { ...c, ...changes } : c)));
+    setChunk({ retrying: true });
+    try {
+      const extraction = await processInsights(chunk.items.map(toQuestion), { operationId: chunk.operationId });
+      await persistBlocks(extraction, chunk.items);
+      markSaved(extraction.blocks || [], extraction.domain);
+      setResult(prev => prev && mergeExtractionResults([prev, extraction]));
+      setFailedChunks(prev => prev.filter(c => c.id !== id));
+    } catch (err: any) {
+      setChunk({ retrying: false, error: err.message || 'Processing failed.' });
     }
   };
 
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleProfileChange = (id: string) => {
+    setActiveProfileId(id);
+    setActiveProfile(getActiveProfile());
+  };
+
+  const handleProfilesUpdated = () => {
+    setProfiles(getAllProfiles());
+    setActiveProfile(getActiveProfile());
+  };
+
   const handleInitialScan = useCallback(async () => {
-    if (!inputText.trim()) return;
+    if (stagedItems.length === 0) return;
 
     setStatus(ProcessingStatus.LOADING);
     setError(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      // Split by double newline or the Question: pattern
-      const rawQuestions = inputText.trim().split(/\n\s*\n/).filter(c => c.includes("Question:")).slice(0, 6);
-
-      if (rawQuestions.length === 0) {
-        throw new Error("No valid questions detected. Ensure you push questions from the Scraper first.");
+      // Hashing the canonical staging text keeps cache and vault keys stable across edits to other items
+      const hashes = await Promise.all(stagedItems.map(item => getQuestionHash(stagedItemText(item))));
+      if (controller.signal.aborted) {
+        setStatus(ProcessingStatus.IDLE);
+        return;
       }
 
-      const hashes = await Promise.all(rawQuestions.map(rq => getQuestionHash(rq)));
-
       // Attempt to check duplicates if Firebase is available
       let duplicates: boolean[] = new Array(hashes.length).fill(false);
       try {
@@ -120,49 +294,53 @@ const App: React.FC = () => {
         console.log("Skipping duplicate check (Firebase not configured)");
       }
 
+      if (controller.signal.aborted) {
+        setStatus(ProcessingStatus.IDLE);
+        return;
+      }
+
       const duplicateIndices = duplicates.map((d, i) => d ? i : -1).filter(i => i !== -1);
 
       if (duplicateIndices.length > 0) {
-        setPendingBatch({ questions: rawQuestions, hashes, duplicateIndices });
+        setPendingBatch({ items: stagedItems, hashes, duplicateIndices });
         setStatus(ProcessingStatus.IDLE);
       } else {
-        await executeProcessing(rawQuestions, hashes);
+        await executeProcessing(stagedItems, hashes);
       }
     } catch (err: any) {
       setError(err.message);
       setStatus(ProcessingStatus.ERROR);
     }
-  }, [inputText, isApiKeySet]);
+  }, [stagedItems, isApiKeySet, forceRegenerate]);
 
   const handlePushToEngine = (q: ExtractedQuestion) => {
-    // RE-CALCULATE limit inside function to be absolutely sure
-    const currentCount = (inputText.match(/Question: /g) || []).length;
-    if (currentCount >= 6) {
-      alert("Generator limit reached! (Max 6 questions). Clear the staging area or process the current batch.");
-      return;
-    }
-    const formatted = `Question: ${q.text}\nCorrect Answer: ${q.correctAnswer}\nExplanation: ${q.explanation}`;
-    setInputText(prev => prev ? `${prev}\n\n${formatted}` : formatted);
+    setStagedItems(prev => [...prev, createStagedItem(q, 'scraper')]);
   };
 
   const handleReset = () => {
-    setInputText('');
+    setStagedItems([]);
     setResult(null);
     setStatus(ProcessingStatus.IDLE);
     setError(null);
     setPendingBatch(null);
-    localStorage.removeItem(STORAGE_KEY_INPUT);
+    setFailedChunks([]);
   };
 
   const handleCopyInput = () => {
-    if (inputText.trim()) {
-      navigator.clipboard.writeText(inputText);
+    if (stagedItems.length > 0) {
+      navigator.clipboard.writeText(stagedItemsToText(stagedItems));
     }
   };
 
   return (
     <div className={`mx-auto ${isEmbedded ? 'p-2' : 'max-w-7xl px-4 py-8 md:py-12'} flex flex-col min-h-screen font-sans bg-slate-950 text-slate-50`}>
-      {!isEmbedded && <Header />}
+      {!isEmbedded && (
+        <Header
+          profiles={profiles}
+          activeProfile={activeProfile}
+          onProfileChange={handleProfileChange}
+        />
+      )}
 
       <div className="flex flex-col sm:flex-row justify-between items-center mt-6 gap-4">
         <div className="bg-slate-900 border border-slate-800 p-1 rounded-xl flex gap-1 shadow-inner">
@@ -196,34 +374,59 @@ const App: React.FC = () => {
         </div>
       </div>
 
+      {queueState && queueState.totalChunks > 1 && (
+        <BatchQueueStatus
+          state={queueState}
+          onPause={() => queueRef.current?.pause()}
+          onResume={() => queueRef.current?.resume()}
+          onCancel={handleCancel}
+        />
+      )}
+
       <main className="flex-1 mt-8">
-        {view === 'vault' ? <VaultView /> : (
-          result ? <OutputSection result={result} onReset={handleReset} /> :
+        {view === 'vault' ? <VaultView key={activeProfile.id} examCode={activeProfile.examCode} /> : (
+          result ? (
+            <OutputSection
+              result={result}
+              onReset={handleReset}
+              onUpdate={update => setResult(prev => prev && update(prev))}
+              failedChunks={failedChunks.map(c => ({ id: c.id, questionCount: c.items.length, error: c.error, retrying: c.retrying }))}
+              onRetryChunk={handleRetryChunk}
+            />
+          ) :
+          streamingResult && streamingResult.result.blocks.length > 0 ? (
+            <OutputSection
+              result={streamingResult.result}
+              onReset={handleCancel}
+              progress={{ completed: streamingResult.result.blocks.length, total: streamingResult.total }}
+            />
+          ) :
             <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 items-start">
               <div className="lg:col-span-4 h-full">
                 <AnswerExtractor
                   onPush={handlePushToEngine}
                   isApiKeySet={isApiKeySet}
-                  isStagingFull={isStagingFull}
                 />
               </div>
 
               <div className="lg:col-span-8">
                 <InputSection
-                  value={inputText}
-                  onChange={setInputText}
+                  items={stagedItems}
+                  onItemsChange={setStagedItems}
                   onProcess={handleInitialScan}
                   onClear={handleReset}
                   onCopy={handleCopyInput}
+                  onCancel={handleCancel}
+                  forceRegenerate={forceRegenerate}
+                  onForceRegenerateChange={setForceRegenerate}
                   loading={status === ProcessingStatus.LOADING}
                   error={error}
                   duplicateCount={pendingBatch?.duplicateIndices.length || 0}
-                  stagedCount={stagedCount}
-                  onSkipDuplicates={() => executeProcessing(
-                    pendingBatch.questions.filter((_: any, i: any) => !pendingBatch.duplicateIndices.includes(i)),
-                    pendingBatch.hashes.filter((_: any, i: any) => !pendingBatch.duplicateIndices.includes(i))
+                  onSkipDuplicates={() => pendingBatch && executeProcessing(
+                    pendingBatch.items.filter((_, i) => !pendingBatch.duplicateIndices.includes(i)),
+                    pendingBatch.hashes.filter((_, i) => !pendingBatch.duplicateIndices.includes(i))
                   )}
-                  onProcessAll={() => executeProcessing(pendingBatch.questions, pendingBatch.hashes)}
+                  onProcessAll={() => pendingBatch && executeProcessing(pendingBatch.items, pendingBatch.hashes)}
                 />
               </div>
             </div>
@@ -234,6 +437,7 @@ const App: React.FC = () => {
         isOpen={showSettings}
         onClose={() => setShowSettings(false)}
         isApiKeySet={isApiKeySet}
+        onProfilesUpdated={handleProfilesUpdated}
       />
 
       {!isEmbedded && (
@@ -0,0 +1,54 @@
+import React from 'react';
+import { BatchQueueState } from './batchQueue';
+
+interface BatchQueueStatusProps {
+  state: BatchQueueState;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+}
+
+const BatchQueueStatus: React.FC<BatchQueueStatusProps> = ({ state, onPause, onResume, onCancel }) => {
+  const { totalChunks, completedChunks, failedChunks, runningChunks, paused } = state;
+  const finishedChunks = completedChunks + failedChunks;
+  const percent = Math.round((finishedChunks / Math.max(totalChunks, 1)) * 100);
+
+  return (
+    <div className="mt-6 bg-slate-900/50 border border-slate-800 p-4 rounded-xl flex flex-col md:flex-row md:items-center gap-4 animate-in fade-in duration-300">
+      <div className="flex-1 space-y-2">
+        <div className="flex justify-between items-center text-[10px] font-black uppercase tracking-widest">
+          <span className={`flex items-center gap-2 ${paused ? 'text-amber-400' : 'text-blue-400'}`}>
+            <i className={`fa-solid ${paused ? 'fa-pause' : 'fa-layer-group animate-pulse'}`}></i>
+            {paused
+              ? `Queue paused${runningChunks > 0 ? ` (finishing ${runningChunks} in flight)` : ''}`
+              : `Processing batch ${Math.min(finishedChunks + 1, totalChunks)} of ${totalChunks}`}
+          </span>
+          <span className="text-slate-500">
+            {completedChunks} / {totalChunks} batches
+            {failedChunks > 0 && <span className="text-red-400"> • {failedChunks} failed</span>}
+          </span>
+        </div>
+        <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+          <div className={`h-full transition-all duration-500 ${paused ? 'bg-amber-500' : 'bg-blue-500'}`} style={{ width: `${percent}%` }}></div>
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={paused ? onResume : onPause}
+          className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-[10px] font-black uppercase tracking-widest transition-colors flex items-center gap-2"
+        >
+          <i className={`fa-solid ${paused ? 'fa-play' : 'fa-pause'}`}></i>
+          {paused ? 'Resume' : 'Pause'}
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 bg-slate-800 hover:bg-red-900/30 text-slate-400 hover:text-red-400 rounded-lg text-[10px] font-black uppercase tracking-widest transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BatchQueueStatus;
@@ -0,0 +1,95 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CorpusStats, clearCorpus, getCorpusStats, importCorpusFiles } from './docCorpus';
+
+const CorpusManager: React.FC = () => {
+  const [stats, setStats] = useState<CorpusStats | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    getCorpusStats().then(setStats);
+  }, []);
+
+  // React doesn't know the non-standard directory attributes, so set them on the element directly
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+    folderInputRef.current?.setAttribute('directory', '');
+  }, []);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setBusy(true);
+    setMessage(null);
+    try {
+      const imported = await importCorpusFiles(files);
+      setMessage({ text: `Indexed ${imported.passages} passages from ${imported.documents} documents.`, isError: false });
+      setStats(await getCorpusStats());
+    } catch (err: any) {
+      setMessage({ text: err.message || 'Import failed.', isError: true });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm("Remove all imported documentation from this browser?")) return;
+    await clearCorpus();
+    setStats(await getCorpusStats());
+    setMessage(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="p-4 rounded-xl border bg-slate-950 border-slate-800 flex items-center justify-between">
+        <div>
+          <p className="text-[10px] font-bold uppercase text-slate-500">Indexed Corpus</p>
+          <p className="text-sm font-black text-slate-200">
+            {stats ? `${stats.documents.toLocaleString()} docs • ${stats.passages.toLocaleString()} passages` : 'Loading...'}
+          </p>
+        </div>
+        {stats && stats.passages > 0 && (
+          <button onClick={handleClear} disabled={busy} className="text-[10px] font-bold text-slate-500 hover:text-red-400 uppercase tracking-widest transition-colors">
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          type="button"
+          disabled={busy}
+          onClick={() => folderInputRef.current?.click()}
+          className="px-3 py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-300 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-colors"
+        >
+          <i className="fa-solid fa-folder-open mr-2"></i>Import Folder
+        </button>
+        <button
+          type="button"
+          disabled={busy}
+          onClick={() => fileInputRef.current?.click()}
+          className="px-3 py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-300 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-colors"
+        >
+          <i className="fa-solid fa-file-zipper mr-2"></i>Import Zip / Files
+        </button>
+      </div>
+      <input ref={folderInputRef} type="file" multiple className="hidden" onChange={handleImport} />
+      <input ref={fileInputRef} type="file" multiple accept=".zip,.md,.markdown,.txt" className="hidden" onChange={handleImport} />
+
+      {busy && (
+        <p className="text-xs text-blue-400 flex items-center gap-2">
+          <i className="fa-solid fa-circle-notch animate-spin"></i>Indexing documents...
+        </p>
+      )}
+      {message && (
+        <p className={`text-xs ${message.isError ? 'text-red-400' : 'text-emerald-400'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default CorpusManager;
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { ExtractionResult } from './types';
+import { EXPORT_FORMAT_LABELS, ExportFormat, exportResult } from './insightExport';
+import AnkiExportDialog from './AnkiExportDialog';
+
+interface ExportMenuProps {
+  // Resolved lazily so vault exports only look up cached blocks when a format is picked
+  getResult: () => ExtractionResult | Promise<ExtractionResult>;
+  disabled?: boolean;
+  label?: string;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ getResult, disabled, label = 'EXPORT' }) => {
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  // Anki exports need deck and template choices, so the resolved result is handed to a dialog
+  const [ankiResult, setAnkiResult] = useState<ExtractionResult | null>(null);
+
+  const handleExport = async (format: ExportFormat | 'anki') => {
+    setOpen(false);
+    setBusy(true);
+    try {
+      const result = await getResult();
+      if (format === 'anki') setAnkiResult(result);
+      else exportResult(result, format);
+    } catch (err: any) {
+      alert(err.message || 'Export failed.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={disabled || busy}
+        className="px-4 py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-300 rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
+      >
+        <i className={`fa-solid ${busy ? 'fa-spinner animate-spin' : 'fa-file-export'}`}></i>
+        {label}
+        <i className={`fa-solid fa-chevron-${open ? 'up' : 'down'} text-[10px]`}></i>
+      </button>
+      {open && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setOpen(false)}></div>
+          <div className="absolute right-0 mt-2 w-56 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl z-20 overflow-hidden">
+            {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                className="w-full px-4 py-2.5 text-left text-xs text-slate-300 hover:bg-slate-800 flex items-center gap-3 transition-colors"
+              >
+                <i className={`${EXPORT_FORMAT_LABELS[format].icon} w-4 text-slate-500`}></i>
+                {EXPORT_FORMAT_LABELS[format].label}
+              </button>
+            ))}
+            <button
+              onClick={() => handleExport('anki')}
+              className="w-full px-4 py-2.5 text-left text-xs text-slate-300 hover:bg-slate-800 flex items-center gap-3 transition-colors border-t border-slate-800"
+            >
+              <i className="fa-solid fa-layer-group w-4 text-slate-500"></i>
+              Anki Deck…
+            </button>
+          </div>
+        </>
+      )}
+      {ankiResult && <AnkiExportDialog result={ankiResult} onClose={() => setAnkiResult(null)} />}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -1,7 +1,14 @@
 
 import React from 'react';
+import { ExamProfile } from './types';
 
-const Header: React.FC = () => {
+interface HeaderProps {
+  profiles: ExamProfile[];
+  activeProfile: ExamProfile;
+  onProfileChange: (id: string) => void;
+}
+
+const Header: React.FC<HeaderProps> = ({ profiles, activeProfile, onProfileChange }) => {
   return (
     <header className="text-center space-y-4">
       <div className="inline-flex items-center justify-center p-3 bg-blue-600/20 rounded-2xl border border-blue-500/30 mb-2">
@@ -11,8 +18,22 @@ const Header: React.FC = () => {
         ANALOGICAL INSIGHT <span className="text-blue-500">EXTRACTOR</span> <span className="text-sm text-slate-500 not-italic ml-2 font-mono border border-slate-700 rounded px-1.5 py-0.5 align-middle">v1.1.0</span>
       </h1>
       <p className="text-slate-400 max-w-2xl mx-auto text-lg leading-relaxed">
-        Transform correctly answered <span className="text-blue-400 font-semibold">AZ-104</span> questions into high-fidelity mental models optimized for NotebookLM slide generation.
+        Transform correctly answered <span className="text-blue-400 font-semibold">{activeProfile.examCode}</span> questions into high-fidelity mental models optimized for NotebookLM slide generation.
       </p>
+      <div className="inline-flex items-center gap-3 bg-slate-900 border border-slate-800 rounded-xl px-4 py-2">
+        <i className="fa-solid fa-graduation-cap text-blue-400 text-sm"></i>
+        <label htmlFor="exam-profile" className="text-[10px] font-black uppercase text-slate-500 tracking-widest">Exam Profile</label>
+        <select
+          id="exam-profile"
+          value={activeProfile.id}
+          onChange={(e) => onProfileChange(e.target.value)}
+          className="bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 text-xs font-bold text-slate-200 outline-none focus:ring-1 focus:ring-blue-500"
+        >
+          {profiles.map(p => (
+            <option key={p.id} value={p.id}>{p.examCode} · {p.name}</option>
+          ))}
+        </select>
+      </div>
     </header>
   );
 };
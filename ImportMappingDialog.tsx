@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { ExtractedQuestion, ExtractionMode } from './types';
+import { summarizeAnswer } from './questionFormat';
+import { FieldMapping, guessMapping, IMPORT_FIELD_LABELS, ImportField, ImportTable, mapRowsToQuestions } from './questionImport';
+
+interface ImportMappingDialogProps {
+  table: ImportTable;
+  mode: ExtractionMode;
+  onImport: (questions: ExtractedQuestion[]) => void;
+  onClose: () => void;
+}
+
+const SINGLE_FIELDS: Exclude<ImportField, 'options'>[] = ['text', 'correctAnswer', 'explanation', 'userAnswer'];
+const PREVIEW_ROWS = 3;
+
+const ImportMappingDialog: React.FC<ImportMappingDialogProps> = ({ table, mode, onImport, onClose }) => {
+  const [mapping, setMapping] = useState<FieldMapping>(() => guessMapping(table.columns));
+
+  const questions = useMemo(() => mapRowsToQuestions(table, mapping, mode), [table, mapping, mode]);
+  const missing = !mapping.text ? 'Map a column to the question text.'
+    : !mapping.correctAnswer ? 'Map a column to the correct answer.'
+    : mode === 'mistakes' && !questions ? 'My Mistakes mode needs your answer on every row.'
+    : null;
+
+  const toggleOption = (column: string) => {
+    setMapping(prev => ({
+      ...prev,
+      options: prev.options.includes(column)
+        ? prev.options.filter(c => c !== column)
+        : table.columns.filter(c => c === column || prev.options.includes(c))
+    }));
+  };
+
+  // Portalled to the body: the scraper card's backdrop blur would otherwise become the containing block for "fixed"
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative w-full max-w-2xl max-h-full bg-slate-900 border border-slate-800 rounded-3xl p-8 shadow-2xl animate-in zoom-in duration-300 overflow-y-auto space-y-6">
+        <div className="flex justify-between items-center">
+          <h3 className="text-xl font-bold text-white flex items-center gap-3">
+            <i className="fa-solid fa-table-columns text-purple-400"></i>
+            Map Columns
+          </h3>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+            <i className="fa-solid fa-xmark text-xl"></i>
+          </button>
+        </div>
+        <p className="text-xs text-slate-500">
+          <span className="font-bold text-slate-300">{table.fileName}</span> • {table.rows.length} rows. Answers can be option letters (B, "A, C") or the option text.
+        </p>
+
+        <div className="grid grid-cols-2 gap-4">
+          {SINGLE_FIELDS.map(field => (
+            <label key={field} className="space-y-1">
+              <span className="text-[10px] font-bold uppercase text-slate-500">{IMPORT_FIELD_LABELS[field]}</span>
+              <select
+                value={mapping[field]}
+                onChange={(e) => setMapping(prev => ({ ...prev, [field]: e.target.value }))}
+                className="w-full bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 text-xs text-slate-300 outline-none focus:ring-1 focus:ring-purple-500/30"
+              >
+                <option value="">— Not mapped —</option>
+                {table.columns.map(column => <option key={column} value={column}>{column}</option>)}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-[10px] font-bold uppercase text-slate-500">{IMPORT_FIELD_LABELS.options} (one list column, or one column per option)</span>
+          <div className="flex flex-wrap gap-2">
+            {table.columns.map(column => (
+              <button
+                key={column}
+                type="button"
+                onClick={() => toggleOption(column)}
+                className={`px-3 py-1 rounded-full border text-[10px] font-bold transition-colors ${mapping.options.includes(column) ? 'bg-purple-500/10 border-purple-500/40 text-purple-300' : 'border-slate-800 text-slate-500 hover:text-slate-300'}`}
+              >
+                {column}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-[10px] font-bold uppercase text-slate-500">Preview</span>
+          {(questions || []).slice(0, PREVIEW_ROWS).map(q => (
+            <div key={q.id} className="p-3 bg-slate-950 border border-slate-800 rounded-xl space-y-1">
+              <p className="text-[10px] text-slate-400 line-clamp-2">{q.text}</p>
+              <p className="text-[9px] font-black text-emerald-500 uppercase">
+                Answer: {summarizeAnswer(q)}
+                {q.options && <span className="text-slate-600 ml-2">• {q.options.length} options</span>}
+              </p>
+            </div>
+          ))}
+          {questions && questions.length === 0 && !missing && (
+            <p className="text-xs text-slate-500">No rows produce a question with this mapping.</p>
+          )}
+        </div>
+
+        {missing && <p className="text-xs text-amber-400">{missing}</p>}
+
+        <div className="flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-slate-500 hover:text-slate-300 text-[10px] font-bold uppercase tracking-widest">
+            Cancel
+          </button>
+          <button
+            onClick={() => questions && onImport(questions)}
+            disabled={!!missing || !questions?.length}
+            className="px-5 py-2.5 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-800 text-white rounded-xl text-[10px] font-black uppercase tracking-widest transition-all"
+          >
+            Import {questions?.length || 0} Questions
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ImportMappingDialog;
@@ -1,45 +1,107 @@
-
-import React from 'react';
+import React, { useState } from 'react';
+import { StagedItem } from './types';
+import { parseStagedQuestion } from './questionFormat';
+import { moveStagedItem, stagedItemText, stagedItemsToText, textToStagedItems } from './stagingQueue';
+import QuestionAnswerView, { QuestionTypeBadge } from './QuestionAnswerView';
 
 interface InputSectionProps {
-  value: string;
-  onChange: (val: string) => void;
+  items: StagedItem[];
+  onItemsChange: (items: StagedItem[]) => void;
   onProcess: () => void;
   onClear: () => void;
   onCopy: () => void;
+  onCancel?: () => void;
+  forceRegenerate: boolean;
+  onForceRegenerateChange: (value: boolean) => void;
   onSkipDuplicates?: () => void;
   onProcessAll?: () => void;
   loading: boolean;
   error: string | null;
   duplicateCount: number;
-  stagedCount: number;
 }
 
+const ORIGIN_LABELS: Record<StagedItem['origin'], { label: string; icon: string }> = {
+  scraper: { label: 'Scraper', icon: 'fa-broom-wide' },
+  manual: { label: 'Manual', icon: 'fa-keyboard' }
+};
+
 const InputSection: React.FC<InputSectionProps> = ({ 
-  value, 
-  onChange, 
+  items, 
+  onItemsChange, 
   onProcess, 
   onClear,
   onCopy,
+  onCancel,
+  forceRegenerate,
+  onForceRegenerateChange,
   onSkipDuplicates, 
   onProcessAll, 
   loading, 
   error, 
-  duplicateCount,
-  stagedCount
+  duplicateCount
 }) => {
+  // Raw text is a draft: edits only replace the queue when applied, so a half-typed block is never lost
+  const [rawDraft, setRawDraft] = useState<string | null>(null);
+  // Draft text outside any question; shown before applying so it isn't dropped silently
+  const [rawUnparsed, setRawUnparsed] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
   const hasDuplicates = duplicateCount > 0;
+  const stagedCount = items.length;
+
+  const closeRawDraft = () => {
+    setRawDraft(null);
+    setRawUnparsed(null);
+  };
+
+  const applyRawDraft = (dropUnparsed = false) => {
+    if (rawDraft === null) return;
+    const { items: next, unparsed } = textToStagedItems(rawDraft, items);
+    if (unparsed && !dropUnparsed) {
+      setRawUnparsed(unparsed);
+      return;
+    }
+    onItemsChange(next);
+    closeRawDraft();
+  };
+
+  const saveEdit = () => {
+    if (!editing) return;
+    onItemsChange(items.map(item => item.id === editing.id
+      ? { ...item, question: parseStagedQuestion(editing.text, item.id) }
+      : item));
+    setEditing(null);
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) onItemsChange(moveStagedItem(items, dragIndex, index));
+    setDragIndex(null);
+  };
 
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between px-2">
         <div className="flex items-center gap-3">
-           <span className={`text-[10px] font-black uppercase px-3 py-1 rounded-full border ${stagedCount >= 6 ? 'bg-red-500/10 text-red-400 border-red-500/20' : 'bg-blue-500/10 text-blue-400 border-blue-500/20'}`}>
+           <span className="text-[10px] font-black uppercase px-3 py-1 rounded-full border bg-blue-500/10 text-blue-400 border-blue-500/20">
             <i className="fa-solid fa-list-check mr-2"></i>
-            Staged Items: {stagedCount} / 6
+            Staged Items: {stagedCount}
            </span>
         </div>
         <div className="flex gap-4">
+           {rawDraft === null ? (
+             <button onClick={() => { setEditing(null); setRawDraft(stagedItemsToText(items)); }} disabled={loading} className="text-[10px] font-bold text-slate-600 hover:text-blue-400 uppercase tracking-widest transition-colors flex items-center gap-2">
+               <i className="fa-solid fa-code"></i> Raw Text
+             </button>
+           ) : (
+             <>
+               <button onClick={closeRawDraft} className="text-[10px] font-bold text-slate-600 hover:text-slate-300 uppercase tracking-widest transition-colors flex items-center gap-2">
+                 <i className="fa-solid fa-xmark"></i> Discard
+               </button>
+               <button onClick={() => applyRawDraft()} className="text-[10px] font-bold text-blue-400 hover:text-blue-300 uppercase tracking-widest transition-colors flex items-center gap-2">
+                 <i className="fa-solid fa-check"></i> Apply Text
+               </button>
+             </>
+           )}
            <button onClick={onCopy} className="text-[10px] font-bold text-slate-600 hover:text-emerald-400 uppercase tracking-widest transition-colors flex items-center gap-2">
              <i className="fa-solid fa-copy"></i> Copy Staging
            </button>
@@ -49,14 +111,100 @@ const InputSection: React.FC<InputSectionProps> = ({
         </div>
       </div>
 
+      {rawUnparsed && (
+        <div className="bg-amber-500/10 border border-amber-500/30 p-4 rounded-2xl space-y-2">
+          <p className="text-xs text-amber-400 flex items-center gap-2">
+            <i className="fa-solid fa-triangle-exclamation"></i>
+            This text isn't part of any question (each one starts at a "Question:" line) and would be dropped:
+          </p>
+          <pre className="text-[11px] text-slate-400 whitespace-pre-wrap font-mono max-h-24 overflow-y-auto">{rawUnparsed}</pre>
+          <button onClick={() => applyRawDraft(true)} className="text-[10px] font-bold text-amber-400 hover:text-amber-300 uppercase tracking-widest transition-colors">
+            Apply Anyway
+          </button>
+        </div>
+      )}
+
       <div className="relative group">
-        <div className={`absolute -inset-1 bg-gradient-to-r ${stagedCount >= 6 ? 'from-orange-600 to-red-600' : 'from-blue-600 to-indigo-600'} rounded-3xl blur opacity-10 group-focus-within:opacity-20 transition duration-500`}></div>
-        <textarea
-          value={value}
-          onChange={(e) => onChange(e.target.value)}
-          placeholder="Extracted insights from the scraper will appear here. You can push up to 6 questions at a time."
-          className="relative w-full h-80 bg-slate-900/80 border border-slate-800 rounded-3xl p-8 text-slate-300 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/30 transition-all resize-none shadow-2xl backdrop-blur-sm"
-        />
+        <div className="absolute -inset-1 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-3xl blur opacity-10 group-focus-within:opacity-20 transition duration-500"></div>
+        {rawDraft !== null ? (
+          <textarea
+            value={rawDraft}
+            onChange={(e) => { setRawDraft(e.target.value); setRawUnparsed(null); }}
+            placeholder={"Question: ...\nCorrect Answer: ...\nExplanation: ...\n\nEach question starts at its Question: line (or the Type: / Case Study: line just above it)."}
+            className="relative w-full h-80 bg-slate-900/80 border border-slate-800 rounded-3xl p-8 text-slate-300 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/30 transition-all resize-none shadow-2xl backdrop-blur-sm"
+          />
+        ) : (
+          <div className="relative w-full h-80 bg-slate-900/80 border border-slate-800 rounded-3xl p-6 overflow-y-auto space-y-3 shadow-2xl backdrop-blur-sm custom-scrollbar">
+            {items.length === 0 && (
+              <p className="text-sm text-slate-600 text-center pt-24">
+                Push questions from the scraper, or switch to Raw Text to paste them. Large batches are split into queued chunks automatically.
+              </p>
+            )}
+            {items.map((item, index) => (
+              <div
+                key={item.id}
+                draggable={!loading && !editing}
+                onDragStart={(e) => {
+                  // Firefox only starts a drag when some data is set
+                  e.dataTransfer.setData('text/plain', String(index));
+                  setDragIndex(index);
+                }}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => handleDrop(index)}
+                onDragEnd={() => setDragIndex(null)}
+                className={`p-4 bg-slate-950 border rounded-2xl space-y-2 transition-all ${dragIndex === index ? 'opacity-40 border-blue-500/40' : 'border-slate-800'}`}
+              >
+                <div className="flex items-center gap-3">
+                  <i className="fa-solid fa-grip-vertical text-slate-700 cursor-grab" title="Drag to reorder"></i>
+                  <span className="text-[9px] font-black text-slate-600 uppercase tracking-widest">#{index + 1}</span>
+                  <span className="text-[9px] font-bold text-slate-600 uppercase tracking-widest">
+                    <i className={`fa-solid ${ORIGIN_LABELS[item.origin].icon} mr-1`}></i>{ORIGIN_LABELS[item.origin].label}
+                  </span>
+                  <QuestionTypeBadge question={item.question} />
+                  <div className="ml-auto flex gap-3">
+                    <button
+                      onClick={() => setEditing({ id: item.id, text: stagedItemText(item) })}
+                      disabled={loading}
+                      className="text-slate-600 hover:text-blue-400 transition-colors"
+                      title="Edit"
+                    >
+                      <i className="fa-solid fa-pen"></i>
+                    </button>
+                    <button
+                      onClick={() => onItemsChange(items.filter(i => i.id !== item.id))}
+                      disabled={loading}
+                      className="text-slate-600 hover:text-red-400 transition-colors"
+                      title="Remove"
+                    >
+                      <i className="fa-solid fa-trash-can"></i>
+                    </button>
+                  </div>
+                </div>
+                {editing?.id === item.id ? (
+                  <div className="space-y-2">
+                    <textarea
+                      value={editing.text}
+                      onChange={(e) => setEditing({ id: item.id, text: e.target.value })}
+                      className="w-full h-40 bg-slate-900 border border-slate-800 rounded-xl p-3 text-xs text-slate-300 font-mono outline-none focus:ring-1 focus:ring-blue-500/30 resize-y"
+                    />
+                    <div className="flex justify-end gap-3">
+                      <button onClick={() => setEditing(null)} className="text-[10px] font-bold text-slate-600 hover:text-slate-300 uppercase tracking-widest">Cancel</button>
+                      <button onClick={saveEdit} className="text-[10px] font-bold text-blue-400 hover:text-blue-300 uppercase tracking-widest">Save</button>
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <p className="text-xs text-slate-300 leading-relaxed">{item.question.text}</p>
+                    <QuestionAnswerView question={item.question} />
+                    {item.question.explanation && (
+                      <p className="text-[10px] text-slate-500 line-clamp-2" title={item.question.explanation}>{item.question.explanation}</p>
+                    )}
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
       {hasDuplicates && !loading && (
@@ -86,7 +234,7 @@ const InputSection: React.FC<InputSectionProps> = ({
         <div className="flex flex-col sm:flex-row items-center gap-4">
           <button
             onClick={onProcess}
-            disabled={loading || stagedCount === 0}
+            disabled={loading || stagedCount === 0 || rawDraft !== null}
             className="w-full sm:w-auto px-10 py-5 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-800 disabled:text-slate-600 text-white font-black rounded-3xl transition-all shadow-xl shadow-blue-900/20 flex items-center justify-center gap-3 uppercase tracking-[0.2em]"
           >
             {loading ? (
@@ -101,11 +249,30 @@ const InputSection: React.FC<InputSectionProps> = ({
               </>
             )}
           </button>
-          <div className="flex flex-col text-left">
+          {loading && onCancel && (
+            <button
+              onClick={onCancel}
+              className="w-full sm:w-auto px-8 py-5 bg-slate-800 hover:bg-red-900/30 text-slate-400 hover:text-red-400 font-black rounded-3xl transition-all flex items-center justify-center gap-3 uppercase tracking-[0.2em]"
+            >
+              <i className="fa-solid fa-stop"></i>
+              <span>Cancel</span>
+            </button>
+          )}
+          <div className="flex flex-col text-left gap-2">
              <span className="text-slate-500 text-[10px] font-black uppercase tracking-widest">
               <i className="fa-solid fa-shield-halved mr-2 text-blue-500"></i>
               Verified Staging Area
             </span>
+            <label className="flex items-center gap-2 text-slate-500 text-[10px] font-black uppercase tracking-widest cursor-pointer hover:text-slate-300 transition-colors">
+              <input
+                type="checkbox"
+                checked={forceRegenerate}
+                onChange={(e) => onForceRegenerateChange(e.target.checked)}
+                disabled={loading}
+                className="accent-blue-500"
+              />
+              Force regenerate (skip cache)
+            </label>
           </div>
         </div>
       )}
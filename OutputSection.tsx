@@ -1,26 +1,229 @@
 
 import React, { useState } from 'react';
-import { ExtractionResult } from './types';
+import { ExamQuestion, ExtractionResult, GroundingSource, InsightBlock, InsightField } from './types';
+import { formatUsd } from './usageLedger';
+import { hasOfficialCitation } from './groundingCitations';
+import { resultToMarkdown } from './insightExport';
+import ExportMenu from './ExportMenu';
+import SlideDeckPanel from './SlideDeckPanel';
+import { processInsights, regenerateInsightField } from './geminiService';
+import {
+  addFieldVariant, getFieldVariants, getSelectedVariantIndex, replaceBlockKeepingVariants, selectFieldVariant, updateResultBlock
+} from './insightVariants';
+
+// First line of the question stem; the full text is in the tooltip.
+const getQuestionPreview = (text: string) => text.split('\n')[0];
+
+// Numbered markers pointing at the sources list at the bottom of the set.
+const CitationMarks: React.FC<{ uris?: string[]; sources: GroundingSource[] }> = ({ uris, sources }) => {
+  const cited = (uris || [])
+    .map(uri => sources.findIndex(s => s.uri === uri))
+    .filter(i => i >= 0)
+    .sort((a, b) => a - b);
+  if (cited.length === 0) return null;
+
+  return (
+    <sup className="ml-1 whitespace-nowrap not-italic">
+      {cited.map(i => (
+        <a
+          key={i}
+          href={sources[i].uri}
+          target="_blank"
+          rel="noopener noreferrer"
+          title={sources[i].title}
+          className={`text-[9px] font-bold mr-0.5 ${sources[i].trust === 'official' ? 'text-emerald-400' : 'text-slate-500'} hover:underline`}
+        >
+          [{i + 1}]
+        </a>
+      ))}
+    </sup>
+  );
+};
+
+// The rule and its explanation are grounded together, so they only change through a full block regeneration
+const VARIANT_FIELDS: InsightField[] = ['analogy', 'analogousFoundationalConcept', 'commonConfusion', 'examEliminationCue', 'memoryHook'];
+
+interface InsightFieldViewProps {
+  block: InsightBlock;
+  field: InsightField;
+  sources: GroundingSource[];
+  heading?: React.ReactNode;
+  className?: string;
+  textClassName: string;
+  as?: 'h3' | 'p';
+  quoted?: boolean;
+  // Absent while streaming: fields are read-only until the batch completes
+  onChange?: (block: InsightBlock) => void;
+  onRegenerate?: () => void;
+  regenerating?: boolean;
+}
+
+// A block field with in-place editing, a picker over its earlier versions and an optional "another version" action.
+const InsightFieldView: React.FC<InsightFieldViewProps> = ({
+  block, field, sources, heading, className, textClassName, as: Text = 'p', quoted, onChange, onRegenerate, regenerating
+}) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const variants = getFieldVariants(block, field);
+  const selected = getSelectedVariantIndex(block, field);
+
+  const handleSave = () => {
+    if (onChange && draft !== null && draft.trim() && draft.trim() !== block[field]) {
+      onChange(addFieldVariant(block, field, { text: draft, source: 'edited' }));
+    }
+    setDraft(null);
+  };
+
+  const tools = onChange && draft === null && (
+    <div className="flex items-center gap-1 shrink-0 text-slate-600 text-[10px]">
+      {variants.length > 1 && (
+        <>
+          <button
+            onClick={() => onChange(selectFieldVariant(block, field, selected - 1))}
+            disabled={selected <= 0}
+            className="w-5 h-5 hover:text-blue-400 disabled:opacity-30 transition-colors"
+          >
+            <i className="fa-solid fa-chevron-left"></i>
+          </button>
+          <span className="font-mono" title={variants[selected] ? `${variants[selected].source} version` : undefined}>
+            {selected + 1}/{variants.length}
+          </span>
+          <button
+            onClick={() => onChange(selectFieldVariant(block, field, selected + 1))}
+            disabled={selected >= variants.length - 1}
+            className="w-5 h-5 hover:text-blue-400 disabled:opacity-30 transition-colors"
+          >
+            <i className="fa-solid fa-chevron-right"></i>
+          </button>
+        </>
+      )}
+      {onRegenerate && (
+        <button onClick={onRegenerate} disabled={regenerating} title="Generate another version" className="w-5 h-5 hover:text-blue-400 transition-colors">
+          <i className={`fa-solid fa-rotate ${regenerating ? 'animate-spin' : ''}`}></i>
+        </button>
+      )}
+      <button onClick={() => setDraft(block[field])} title="Edit" className="w-5 h-5 hover:text-blue-400 transition-colors">
+        <i className="fa-solid fa-pen"></i>
+      </button>
+    </div>
+  );
+
+  const text = (
+    <Text className={textClassName}>
+      {quoted && '"'}{block[field]}{quoted && '"'}<CitationMarks uris={block.citations?.[field]} sources={sources} />
+    </Text>
+  );
+
+  return (
+    <section className={className}>
+      {heading && <div className="flex justify-between items-start gap-3 mb-1">{heading}{tools}</div>}
+      {draft !== null ? (
+        <div className="space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') setDraft(null);
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSave();
+            }}
+            autoFocus
+            rows={3}
+            className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2 text-sm text-slate-200 outline-none focus:ring-1 focus:ring-blue-500/40"
+          />
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setDraft(null)} className="px-3 py-1 text-slate-500 hover:text-slate-300 text-[10px] font-bold uppercase tracking-widest">
+              Cancel
+            </button>
+            <button onClick={handleSave} className="px-3 py-1 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-[10px] font-bold uppercase tracking-widest">
+              Save
+            </button>
+          </div>
+        </div>
+      ) : heading ? text : (
+        <div className="flex justify-between items-start gap-3">{text}{tools}</div>
+      )}
+    </section>
+  );
+};
+
+interface StreamProgress {
+  completed: number;
+  total: number;
+}
+
+interface FailedChunkNotice {
+  id: number;
+  questionCount: number;
+  error: string;
+  retrying: boolean;
+}
 
 interface OutputSectionProps {
   result: ExtractionResult | null;
   onReset: () => void;
+  // Present while blocks are still streaming in; onReset then cancels the stream.
+  progress?: StreamProgress;
+  // Applies edits and regenerations; takes an updater so concurrent regenerations don't overwrite each other
+  onUpdate?: (update: (result: ExtractionResult) => ExtractionResult) => void;
+  // Batches whose questions are missing from the result because they failed
+  failedChunks?: FailedChunkNotice[];
+  onRetryChunk?: (id: number) => void;
 }
 
-const OutputSection: React.FC<OutputSectionProps> = ({ result, onReset }) => {
+const OutputSection: React.FC<OutputSectionProps> = ({ result, onReset, progress, onUpdate, failedChunks = [], onRetryChunk }) => {
   const [copied, setCopied] = useState(false);
+  const [showSlides, setShowSlides] = useState(false);
+  // "<block index>:block" or "<block index>:<field>" for every regeneration in flight
+  const [busyKeys, setBusyKeys] = useState<Set<string>>(new Set());
+  // Last regeneration failure per block index, shown on that block until its next attempt
+  const [blockErrors, setBlockErrors] = useState<Record<number, string>>({});
 
   if (!result) return null;
 
-  const handleCopy = () => {
-    const text = document.getElementById('notebooklm-output')?.innerText;
-    if (text) {
-      navigator.clipboard.writeText(text);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 3000);
+  const isStreaming = !!progress;
+  const sources = result.sources || [];
+  const update = !isStreaming ? onUpdate : undefined;
+
+  const runBusy = async (idx: number, key: string, task: () => Promise<void>) => {
+    setBusyKeys(prev => new Set(prev).add(key));
+    setBlockErrors(({ [idx]: _, ...rest }) => rest);
+    try {
+      await task();
+    } catch (err: any) {
+      setBlockErrors(prev => ({ ...prev, [idx]: err.message || 'Regeneration failed.' }));
+    } finally {
+      setBusyKeys(prev => {
+        const next = new Set(prev);
+        next.delete(key);
+        return next;
+      });
     }
   };
 
+  const handleRegenerateBlock = (idx: number, question: ExamQuestion) => update && runBusy(idx, `${idx}:block`, async () => {
+    const regenerated = await processInsights([question]);
+    update(prev => ({
+      ...updateResultBlock(prev, idx, replaceBlockKeepingVariants(prev.blocks[idx], regenerated.blocks[0]), {
+        sources: regenerated.sources,
+        usage: regenerated.usage
+      }),
+      cachedQuestionIds: prev.cachedQuestionIds?.filter(id => id !== question.id)
+    }));
+  });
+
+  const handleRegenerateField = (idx: number, block: InsightBlock, field: InsightField, question: ExamQuestion) =>
+    update && runBusy(idx, `${idx}:${field}`, async () => {
+      const previous = getFieldVariants(block, field).map(v => v.text);
+      const { text, usage } = await regenerateInsightField(question, block, field, previous);
+      update(prev => updateResultBlock(prev, idx, addFieldVariant(prev.blocks[idx], field, { text, source: 'regenerated' }), { usage }));
+    });
+
+  // Markdown keeps headings, citation markers and the numbered sources list when pasted into NotebookLM
+  const handleCopy = () => {
+    navigator.clipboard.writeText(resultToMarkdown(result));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 3000);
+  };
+
   return (
     <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
       {/* Success Banner */}
@@ -35,84 +238,260 @@ const OutputSection: React.FC<OutputSectionProps> = ({ result, onReset }) => {
         <div className="flex flex-col gap-1">
           <span className="text-blue-400 font-bold tracking-widest text-[10px] uppercase">Validated Domain</span>
           <span className="text-white font-semibold text-lg">{result.domain}</span>
+          {!isStreaming && result.usage && (
+            <span className="text-slate-500 text-[10px] font-mono" title="Estimated from provider-reported token counts">
+              <i className="fa-solid fa-coins mr-1.5 text-slate-600"></i>
+              {formatUsd(result.usage.costUsd)} • {result.usage.promptTokens.toLocaleString()} in / {(result.usage.outputTokens + result.usage.thinkingTokens).toLocaleString()} out tokens
+            </span>
+          )}
         </div>
         <div className="flex gap-2">
-          <button
-            onClick={handleCopy}
-            className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
-          >
-            <i className={`fa-solid ${copied ? 'fa-check text-green-500' : 'fa-copy'}`}></i>
-            {copied ? 'COPIED!' : 'COPY FOR NOTEBOOKLM'}
-          </button>
+          {!isStreaming && (
+            <button
+              onClick={handleCopy}
+              className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
+            >
+              <i className={`fa-solid ${copied ? 'fa-check text-green-500' : 'fa-copy'}`}></i>
+              {copied ? 'COPIED!' : 'COPY FOR NOTEBOOKLM'}
+            </button>
+          )}
+          {!isStreaming && (
+            <button
+              onClick={() => setShowSlides(!showSlides)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center gap-2 ${showSlides ? 'bg-blue-600/20 text-blue-300' : 'bg-slate-800 hover:bg-slate-700 text-slate-300'}`}
+            >
+              <i className="fa-solid fa-display"></i>
+              SLIDES
+            </button>
+          )}
+          {!isStreaming && <ExportMenu getResult={() => result} />}
           <button
             onClick={onReset}
             className="px-4 py-2 bg-slate-800 hover:bg-red-900/30 text-slate-300 hover:text-red-400 rounded-lg text-sm font-medium transition-colors"
           >
-            RESET
+            {isStreaming ? 'CANCEL' : 'RESET'}
           </button>
         </div>
       </div>
 
+      {progress && (
+        <div className="bg-slate-900/50 border border-slate-800 p-4 rounded-xl space-y-2">
+          <div className="flex justify-between items-center text-[10px] font-black uppercase tracking-widest">
+            <span className="text-blue-400 flex items-center gap-2">
+              <i className="fa-solid fa-brain animate-pulse"></i>
+              {progress.completed < progress.total
+                ? `Generating block ${progress.completed + 1} of ${progress.total}`
+                : 'Validating final output...'}
+            </span>
+            <span className="text-slate-500">{progress.completed} / {progress.total} complete</span>
+          </div>
+          <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-blue-500 transition-all duration-500"
+              style={{ width: `${Math.min(100, (progress.completed / Math.max(progress.total, 1)) * 100)}%` }}
+            ></div>
+          </div>
+        </div>
+      )}
+
+      {failedChunks.length > 0 && (
+        <div className="bg-red-500/10 border border-red-500/30 p-4 rounded-xl space-y-3">
+          <p className="text-red-400 text-[10px] font-black uppercase tracking-widest flex items-center gap-2">
+            <i className="fa-solid fa-triangle-exclamation"></i>
+            {failedChunks.length} batch{failedChunks.length === 1 ? '' : 'es'} failed • their questions are missing below
+          </p>
+          {failedChunks.map(chunk => (
+            <div key={chunk.id} className="flex items-center justify-between gap-4">
+              <span className="text-xs text-slate-400">
+                <span className="font-bold text-slate-300">Batch {chunk.id + 1}</span> • {chunk.questionCount} question{chunk.questionCount === 1 ? '' : 's'}
+                {!chunk.retrying && chunk.error && <span className="text-red-400/80"> • {chunk.error}</span>}
+              </span>
+              <button
+                onClick={() => onRetryChunk?.(chunk.id)}
+                disabled={chunk.retrying}
+                className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-300 rounded-lg text-[10px] font-black uppercase tracking-widest transition-colors flex items-center gap-2 shrink-0"
+              >
+                <i className={`fa-solid ${chunk.retrying ? 'fa-spinner animate-spin' : 'fa-rotate-right'}`}></i>
+                Retry
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showSlides && !isStreaming && <SlideDeckPanel result={result} />}
+
       <div id="notebooklm-output" className="bg-slate-900 border border-slate-700 rounded-2xl p-8 space-y-12">
         <div className="pb-4 border-b border-slate-800">
-          <h2 className="text-2xl font-black text-blue-500">AZ-104 MASTER-PRINCIPLE SET: {result.domain}</h2>
+          <h2 className="text-2xl font-black text-blue-500">{result.examCode || 'AZ-104'} MASTER-PRINCIPLE SET: {result.domain}</h2>
           <p className="text-slate-500 text-sm mt-1 uppercase tracking-tighter italic">Validated against Microsoft Learn • Optimized for NotebookLM</p>
+          {result.promptVersion && (
+            <p className="text-slate-600 text-[10px] mt-1 font-mono">Prompt: {result.promptVersion}</p>
+          )}
         </div>
 
-        {result.blocks.map((block, idx) => (
-          <div key={idx} className="space-y-6 border-l-4 border-blue-600/50 pl-6 py-2">
-            <div className="space-y-1">
-              <span className="text-blue-500 font-black text-xs uppercase tracking-widest">Foundational Block 0{idx + 1}</span>
-              <h3 className="text-xl font-bold text-slate-100">{block.foundationalRule}</h3>
-            </div>
+        {result.blocks.map((block, idx) => {
+          const sourceQuestion = result.questions?.find(q => q.id === block.sourceQuestionId);
+          const regeneratingBlock = busyKeys.has(`${idx}:block`);
+          const fieldProps = (field: InsightField) => ({
+            block,
+            field,
+            sources,
+            onChange: update && ((next: InsightBlock) => update(prev => updateResultBlock(prev, idx, next))),
+            onRegenerate: update && sourceQuestion && VARIANT_FIELDS.includes(field)
+              ? () => handleRegenerateField(idx, block, field, sourceQuestion)
+              : undefined,
+            regenerating: regeneratingBlock || busyKeys.has(`${idx}:${field}`)
+          });
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-8 text-sm">
-              <div className="space-y-4">
-                <section>
-                  <h4 className="text-blue-400 font-bold uppercase text-[10px] tracking-widest mb-1">Why It Works (Documentation-Backed)</h4>
-                  <p className="text-slate-300 leading-relaxed">{block.whyItWorks}</p>
-                </section>
-                <section>
-                  <h4 className="text-emerald-400 font-bold uppercase text-[10px] tracking-widest mb-1">Analogy (Non-Technical)</h4>
-                  <p className="text-slate-400 italic">"{block.analogy}"</p>
-                </section>
-                <section>
-                  <h4 className="text-indigo-400 font-bold uppercase text-[10px] tracking-widest mb-1">Analogous Foundational Concept</h4>
-                  <p className="text-slate-300">{block.analogousFoundationalConcept}</p>
-                </section>
+          return (
+            <div key={block.sourceQuestionId || idx} className="space-y-6 border-l-4 border-blue-600/50 pl-6 py-2">
+              <div className="space-y-1">
+                <span className="text-blue-500 font-black text-xs uppercase tracking-widest">Foundational Block 0{idx + 1}</span>
+                {result.cachedQuestionIds?.includes(block.sourceQuestionId) && (
+                  <span className="ml-3 text-[9px] font-black text-slate-500 uppercase tracking-widest bg-slate-800 px-2 py-0.5 rounded">Cached</span>
+                )}
+                {block.mistake && (
+                  <span className="ml-3 text-[9px] font-black text-red-400 uppercase tracking-widest bg-red-500/10 border border-red-500/20 px-2 py-0.5 rounded">Mistake</span>
+                )}
+                {!isStreaming && !hasOfficialCitation(block, sources) && (
+                  <span
+                    className="ml-3 text-[9px] font-black text-amber-400 uppercase tracking-widest bg-amber-500/10 border border-amber-500/20 px-2 py-0.5 rounded"
+                    title="No statement in this block is backed by an official documentation source. Verify before studying."
+                  >
+                    <i className="fa-solid fa-triangle-exclamation mr-1"></i>
+                    No official citation
+                  </span>
+                )}
+                {update && sourceQuestion && (
+                  <button
+                    onClick={() => handleRegenerateBlock(idx, sourceQuestion)}
+                    disabled={regeneratingBlock}
+                    title="Regenerate this block from its source question; earlier versions stay selectable per field"
+                    className="ml-3 text-[9px] font-black text-slate-500 hover:text-blue-400 disabled:text-blue-400 uppercase tracking-widest transition-colors"
+                  >
+                    <i className={`fa-solid fa-arrows-rotate mr-1 ${regeneratingBlock ? 'animate-spin' : ''}`}></i>
+                    {regeneratingBlock ? 'Regenerating...' : 'Regenerate'}
+                  </button>
+                )}
+                {blockErrors[idx] && (
+                  <p className="text-xs text-red-400 flex items-center gap-2">
+                    <i className="fa-solid fa-circle-exclamation"></i>
+                    {blockErrors[idx]}
+                  </p>
+                )}
+                <InsightFieldView {...fieldProps('foundationalRule')} as="h3" textClassName="text-xl font-bold text-slate-100" />
+                {sourceQuestion && (
+                  <p className="text-xs text-slate-500 line-clamp-2 pt-1" title={sourceQuestion.text}>
+                    <i className="fa-solid fa-link text-[10px] mr-2 text-slate-600"></i>
+                    Source question: {getQuestionPreview(sourceQuestion.text)}
+                  </p>
+                )}
               </div>
 
-              <div className="space-y-4">
-                <section className="bg-red-500/5 border border-red-500/10 p-4 rounded-lg">
-                  <h4 className="text-red-400 font-bold uppercase text-[10px] tracking-widest mb-1">Common Confusion & Why It's Wrong</h4>
-                  <p className="text-slate-300">{block.commonConfusion}</p>
-                </section>
-                <section className="bg-blue-600/10 border border-blue-500/20 p-4 rounded-lg">
-                  <h4 className="text-blue-300 font-bold uppercase text-[10px] tracking-widest mb-1">Exam Elimination Cue</h4>
-                  <p className="text-slate-300">{block.examEliminationCue}</p>
-                </section>
-                <section className="pt-2">
-                  <h4 className="text-amber-400 font-bold uppercase text-[10px] tracking-widest mb-1">One-Line Memory Hook</h4>
-                  <p className="text-lg font-bold text-white tracking-tight italic">"{block.memoryHook}"</p>
-                </section>
+              {block.mistake && (
+                <div className="bg-red-500/5 border border-red-500/20 p-4 rounded-lg space-y-3 text-sm">
+                  <h4 className="text-red-400 font-bold uppercase text-[10px] tracking-widest">
+                    <i className="fa-solid fa-circle-xmark mr-2"></i>Why My Answer Was Wrong
+                  </h4>
+                  <p className="text-slate-400">
+                    <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest mr-2">I chose:</span>
+                    <span className="line-through decoration-red-500/60">{block.mistake.chosenAnswer}</span>
+                  </p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <section>
+                      <h5 className="text-red-300 font-bold uppercase text-[10px] tracking-widest mb-1">Misconception</h5>
+                      <p className="text-slate-300">{block.mistake.misconception}</p>
+                    </section>
+                    <section>
+                      <h5 className="text-emerald-400 font-bold uppercase text-[10px] tracking-widest mb-1">The Rule That Disproves It</h5>
+                      <p className="text-slate-300">{block.mistake.disprovingRule}</p>
+                    </section>
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-8 text-sm">
+                <div className="space-y-4">
+                  <InsightFieldView
+                    {...fieldProps('whyItWorks')}
+                    heading={<h4 className="text-blue-400 font-bold uppercase text-[10px] tracking-widest">Why It Works (Documentation-Backed)</h4>}
+                    textClassName="text-slate-300 leading-relaxed"
+                  />
+                  <InsightFieldView
+                    {...fieldProps('analogy')}
+                    heading={<h4 className="text-emerald-400 font-bold uppercase text-[10px] tracking-widest">Analogy (Non-Technical)</h4>}
+                    textClassName="text-slate-400 italic"
+                    quoted
+                  />
+                  <InsightFieldView
+                    {...fieldProps('analogousFoundationalConcept')}
+                    heading={<h4 className="text-indigo-400 font-bold uppercase text-[10px] tracking-widest">Analogous Foundational Concept</h4>}
+                    textClassName="text-slate-300"
+                  />
+                </div>
+
+                <div className="space-y-4">
+                  <InsightFieldView
+                    {...fieldProps('commonConfusion')}
+                    className="bg-red-500/5 border border-red-500/10 p-4 rounded-lg"
+                    heading={<h4 className="text-red-400 font-bold uppercase text-[10px] tracking-widest">Common Confusion & Why It's Wrong</h4>}
+                    textClassName="text-slate-300"
+                  />
+                  <InsightFieldView
+                    {...fieldProps('examEliminationCue')}
+                    className="bg-blue-600/10 border border-blue-500/20 p-4 rounded-lg"
+                    heading={<h4 className="text-blue-300 font-bold uppercase text-[10px] tracking-widest">Exam Elimination Cue</h4>}
+                    textClassName="text-slate-300"
+                  />
+                  <InsightFieldView
+                    {...fieldProps('memoryHook')}
+                    className="pt-2"
+                    heading={<h4 className="text-amber-400 font-bold uppercase text-[10px] tracking-widest">One-Line Memory Hook</h4>}
+                    textClassName="text-lg font-bold text-white tracking-tight italic"
+                    quoted
+                  />
+                </div>
               </div>
+
+              {block.optionBreakdown && block.optionBreakdown.length > 0 && (
+                <section>
+                  <h4 className="text-blue-300 font-bold uppercase text-[10px] tracking-widest mb-2">Option Elimination</h4>
+                  <table className="w-full text-sm border-collapse">
+                    <tbody>
+                      {block.optionBreakdown.map((verdict, vIdx) => (
+                        <tr key={vIdx} className="border-t border-slate-800 align-top">
+                          <td className="py-2 pr-3 w-6">
+                            <i className={`fa-solid ${verdict.isCorrect ? 'fa-circle-check text-emerald-500' : 'fa-circle-xmark text-red-400'}`}></i>
+                            <span className="sr-only">{verdict.isCorrect ? 'Correct' : 'Eliminate'}</span>
+                          </td>
+                          <td className={`py-2 pr-4 w-2/5 font-medium ${verdict.isCorrect ? 'text-emerald-300' : 'text-slate-400'}`}>{verdict.option}</td>
+                          <td className="py-2 text-slate-300">{verdict.reason}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </section>
+              )}
             </div>
-          </div>
-        ))}
+          );
+        })}
 
-        {result.sources && result.sources.length > 0 && (
+        {sources.length > 0 && (
           <div className="pt-8 border-t border-slate-800">
             <h4 className="text-slate-500 font-bold uppercase text-[10px] tracking-widest mb-3">Grounding Documentation & Sources</h4>
             <div className="flex flex-wrap gap-2">
-              {result.sources.map((source, sIdx) => (
+              {sources.map((source, sIdx) => (
                 <a
                   key={sIdx}
                   href={source.uri}
                   target="_blank"
                   rel="noopener noreferrer"
-                  className="inline-flex items-center gap-2 px-3 py-1 bg-slate-800 hover:bg-slate-700 text-blue-400 text-xs rounded-full border border-slate-700 transition-colors"
+                  title={source.trust === 'official' ? 'Official documentation' : 'Third-party source'}
+                  className={`inline-flex items-center gap-2 px-3 py-1 bg-slate-800 hover:bg-slate-700 text-xs rounded-full border transition-colors ${source.trust === 'official' ? 'text-emerald-400 border-emerald-500/30' : 'text-blue-400 border-slate-700'}`}
                 >
-                  <i className="fa-solid fa-link text-[10px]"></i>
+                  <span className="font-bold text-[10px] text-slate-500">[{sIdx + 1}]</span>
+                  <i className={`fa-solid ${source.trust === 'official' ? 'fa-circle-check' : 'fa-link'} text-[10px]`}></i>
                   {source.title}
                 </a>
               ))}
@@ -121,13 +500,15 @@ const OutputSection: React.FC<OutputSectionProps> = ({ result, onReset }) => {
         )}
       </div>
 
-      <div className="bg-blue-600/10 border border-blue-500/30 p-6 rounded-2xl flex flex-col items-center gap-4 text-center">
-        <i className="fa-solid fa-file-export text-blue-400 text-2xl"></i>
-        <div>
-          <h4 className="text-white font-bold">Ready for NotebookLM</h4>
-          <p className="text-slate-400 text-sm">This set is grounded in official documentation and ready for expansion into a slide deck or podcast.</p>
+      {!isStreaming && (
+        <div className="bg-blue-600/10 border border-blue-500/30 p-6 rounded-2xl flex flex-col items-center gap-4 text-center">
+          <i className="fa-solid fa-file-export text-blue-400 text-2xl"></i>
+          <div>
+            <h4 className="text-white font-bold">Ready for NotebookLM</h4>
+            <p className="text-slate-400 text-sm">This set is grounded in official documentation and ready for expansion into a slide deck or podcast.</p>
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,87 @@
+import React from 'react';
+import { QuestionAnswer } from './types';
+import { QUESTION_TYPE_LABELS } from './questionFormat';
+
+interface QuestionAnswerViewProps {
+  question: QuestionAnswer & { options?: string[]; userAnswer?: string };
+  muted?: boolean;
+}
+
+export const QuestionTypeBadge: React.FC<{ question: QuestionAnswer }> = ({ question }) => (
+  question.type === 'single' ? null : (
+    <span className="text-[9px] font-black text-purple-300 uppercase px-2 py-0.5 bg-purple-500/10 border border-purple-500/20 rounded w-fit">
+      {QUESTION_TYPE_LABELS[question.type]}
+    </span>
+  )
+);
+
+const CorrectAnswerView: React.FC<QuestionAnswerViewProps> = ({ question, muted }) => {
+  const answerClass = `text-[9px] font-black uppercase px-2 py-0.5 rounded w-fit ${muted ? 'text-slate-500 bg-slate-800' : 'text-emerald-500 bg-emerald-500/10'}`;
+
+  switch (question.type) {
+    case 'multi-select':
+      return (
+        <div className="flex flex-wrap gap-1.5">
+          {question.correctAnswers.map((answer, i) => (
+            <span key={i} className={answerClass}>
+              <i className="fa-solid fa-square-check mr-1"></i>{answer}
+            </span>
+          ))}
+        </div>
+      );
+    case 'ordering':
+      return (
+        <ol className="space-y-1">
+          {question.orderedSteps.map((step, i) => (
+            <li key={i} className="flex items-start gap-2 text-[10px] text-slate-400">
+              <span className={`${answerClass} shrink-0`}>{i + 1}</span>
+              <span>{step}</span>
+            </li>
+          ))}
+        </ol>
+      );
+    case 'yes-no-series':
+      return (
+        <div className="space-y-1">
+          {question.statements.map((s, i) => (
+            <div key={i} className="flex items-start justify-between gap-3 text-[10px] text-slate-400">
+              <span>{s.statement}</span>
+              <span className={`shrink-0 text-[9px] font-black uppercase px-2 py-0.5 rounded ${s.answer === 'Yes' ? 'text-emerald-500 bg-emerald-500/10' : 'text-red-400 bg-red-500/10'}`}>
+                {s.answer}
+              </span>
+            </div>
+          ))}
+        </div>
+      );
+    case 'case-study':
+      return (
+        <div className="space-y-2">
+          <p className="text-[10px] text-slate-500 italic line-clamp-2" title={question.scenario}>
+            <i className="fa-solid fa-book-open mr-1.5"></i>{question.scenario}
+          </p>
+          <span className={answerClass}>Answer: {question.correctAnswer}</span>
+        </div>
+      );
+    default:
+      return <span className={answerClass}>Answer: {question.correctAnswer}</span>;
+  }
+};
+
+// Incorrectly answered questions also show the answer the user picked
+const QuestionAnswerView: React.FC<QuestionAnswerViewProps> = ({ question, muted }) => (
+  <div className="flex flex-col gap-1.5">
+    {question.options && question.options.length > 0 && (
+      <p className="text-[10px] text-slate-500">
+        <i className="fa-solid fa-list-ul mr-1.5"></i>{question.options.length} options captured
+      </p>
+    )}
+    <CorrectAnswerView question={question} muted={muted} />
+    {question.userAnswer && (
+      <span className="text-[9px] font-black text-red-400 uppercase px-2 py-0.5 bg-red-500/10 rounded w-fit line-through decoration-red-500/60">
+        You chose: {question.userAnswer}
+      </span>
+    )}
+  </div>
+);
+
+export default QuestionAnswerView;
@@ -1,26 +1,111 @@
 import React, { useState, useEffect } from 'react';
+import { ExamProfile } from './types';
+import { getCustomProfiles, parseProfileJson, saveCustomProfiles } from './examProfiles';
+import {
+  PromptTemplateId,
+  PROMPT_STORAGE_KEYS,
+  PROMPT_TEMPLATE_IDS,
+  getAnalogyStyle,
+  getPromptTemplate,
+  resetPromptTemplate,
+  savePromptTemplate
+} from './promptRegistry';
+import { BATCH_STORAGE_KEYS, getBatchSettings } from './batchQueue';
+import { ProviderId, PROVIDER_LABELS, PROVIDER_STORAGE_KEYS, getProviderId, getOpenAIConfig, isStreamingEnabled } from './llmProvider';
+import { USAGE_STORAGE_KEYS, getBudget } from './usageLedger';
+import { CORPUS_STORAGE_KEYS, GROUNDING_MODE_LABELS, GroundingMode, getGroundingMode } from './docCorpus';
+import UsagePanel from './UsagePanel';
+import CorpusManager from './CorpusManager';
 
 interface SettingsDrawerProps {
   isOpen: boolean;
   onClose: () => void;
   isApiKeySet: boolean;
+  onProfilesUpdated: () => void;
 }
 
-const SettingsDrawer: React.FC<SettingsDrawerProps> = ({ isOpen, onClose, isApiKeySet }) => {
-  const [geminiApiKey, setGeminiApiKey] = useState(() => localStorage.getItem('gemini_api_key') || '');
+const PROFILE_JSON_PLACEHOLDER = `{
+  "id": "az-305",
+  "name": "Azure Solutions Architect Expert",
+  "examCode": "AZ-305",
+  "skillsOutline": ["Design identity, governance, and monitoring solutions"],
+  "groundingDomains": ["learn.microsoft.com"],
+  "deniedSourceDomains": ["examtopics.com"]
+}`;
+
+// Blank fields mean "no limit" (budgets) or "free" (custom endpoint pricing).
+const USAGE_FIELDS = [
+  ['dailyBudget', 'Daily limit (USD)'],
+  ['monthlyBudget', 'Monthly limit (USD)'],
+  ['customInputPrice', 'Custom endpoint $ / 1M in'],
+  ['customOutputPrice', 'Custom endpoint $ / 1M out']
+] as const;
+
+type UsageField = typeof USAGE_FIELDS[number][0];
+
+const SettingsDrawer: React.FC<SettingsDrawerProps> = ({ isOpen, onClose, isApiKeySet, onProfilesUpdated }) => {
+  const [provider, setProvider] = useState<ProviderId>(getProviderId);
+  const [geminiApiKey, setGeminiApiKey] = useState(() => localStorage.getItem(PROVIDER_STORAGE_KEYS.geminiApiKey) || '');
+  const [openaiConfig, setOpenaiConfig] = useState(getOpenAIConfig);
+  const [streamInsights, setStreamInsights] = useState(isStreamingEnabled);
+  const [groundingMode, setGroundingMode] = useState<GroundingMode>(getGroundingMode);
+  const [batchSettings, setBatchSettings] = useState(getBatchSettings);
+  const [usageSettings, setUsageSettings] = useState(() =>
+    Object.fromEntries(USAGE_FIELDS.map(([key]) => [key, localStorage.getItem(USAGE_STORAGE_KEYS[key]) || ''])) as Record<UsageField, string>
+  );
+  const [customProfiles, setCustomProfiles] = useState<ExamProfile[]>(getCustomProfiles);
+  const [profileJson, setProfileJson] = useState('');
+  const [profileError, setProfileError] = useState<string | null>(null);
+  const [templateId, setTemplateId] = useState<PromptTemplateId>('insight-extraction');
+  const [promptTemplate, setPromptTemplate] = useState(() => getPromptTemplate('insight-extraction'));
+  const [templateDraft, setTemplateDraft] = useState(promptTemplate.template);
+  const [analogyStyle, setAnalogyStyle] = useState(getAnalogyStyle);
   const [config, setConfig] = useState(() => {
     const saved = localStorage.getItem('vault_firebase_config');
     return saved ? JSON.parse(saved) : { projectId: '', apiKey: '', authDomain: '', appId: '' };
   });
 
   const save = () => {
+    // Save provider selection
+    localStorage.setItem(PROVIDER_STORAGE_KEYS.provider, provider);
+    localStorage.setItem(PROVIDER_STORAGE_KEYS.streamInsights, String(streamInsights));
+
     // Save Gemini API key
     if (geminiApiKey.trim()) {
-      localStorage.setItem('gemini_api_key', geminiApiKey.trim());
+      localStorage.setItem(PROVIDER_STORAGE_KEYS.geminiApiKey, geminiApiKey.trim());
     } else {
-      localStorage.removeItem('gemini_api_key');
+      localStorage.removeItem(PROVIDER_STORAGE_KEYS.geminiApiKey);
     }
 
+    // Save OpenAI-compatible endpoint
+    localStorage.setItem(PROVIDER_STORAGE_KEYS.openaiBaseUrl, openaiConfig.baseUrl.trim());
+    localStorage.setItem(PROVIDER_STORAGE_KEYS.openaiModel, openaiConfig.model.trim());
+    if (openaiConfig.apiKey.trim()) {
+      localStorage.setItem(PROVIDER_STORAGE_KEYS.openaiApiKey, openaiConfig.apiKey.trim());
+    } else {
+      localStorage.removeItem(PROVIDER_STORAGE_KEYS.openaiApiKey);
+    }
+
+    // Save grounding mode
+    localStorage.setItem(CORPUS_STORAGE_KEYS.mode, groundingMode);
+
+    // Save prompt variables
+    localStorage.setItem(PROMPT_STORAGE_KEYS.analogyStyle, analogyStyle.trim());
+
+    // Save batch queue settings
+    localStorage.setItem(BATCH_STORAGE_KEYS.chunkSize, String(batchSettings.chunkSize));
+    localStorage.setItem(BATCH_STORAGE_KEYS.concurrency, String(batchSettings.concurrency));
+
+    // Save budget limits and custom endpoint pricing
+    USAGE_FIELDS.forEach(([key]) => {
+      const value = parseFloat(usageSettings[key]);
+      if (Number.isFinite(value) && value >= 0) {
+        localStorage.setItem(USAGE_STORAGE_KEYS[key], String(value));
+      } else {
+        localStorage.removeItem(USAGE_STORAGE_KEYS[key]);
+      }
+    });
+
     // Save Firebase config
     localStorage.setItem('vault_firebase_config', JSON.stringify(config));
 
@@ -28,6 +113,40 @@ const SettingsDrawer: React.FC<SettingsDrawerProps> = ({ isOpen, onClose, isApiK
     window.location.reload();
   };
 
+  const updateCustomProfiles = (profiles: ExamProfile[]) => {
+    saveCustomProfiles(profiles);
+    setCustomProfiles(profiles);
+    onProfilesUpdated();
+  };
+
+  const addProfile = () => {
+    try {
+      const profile = parseProfileJson(profileJson);
+      updateCustomProfiles([...customProfiles.filter(p => p.id !== profile.id), profile]);
+      setProfileJson('');
+      setProfileError(null);
+    } catch (err: any) {
+      setProfileError(err.message);
+    }
+  };
+
+  const loadTemplate = (id: PromptTemplateId) => {
+    const template = getPromptTemplate(id);
+    setTemplateId(id);
+    setPromptTemplate(template);
+    setTemplateDraft(template.template);
+  };
+
+  const saveTemplate = () => {
+    savePromptTemplate(templateId, templateDraft);
+    loadTemplate(templateId);
+  };
+
+  const resetTemplate = () => {
+    resetPromptTemplate(templateId);
+    loadTemplate(templateId);
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -66,30 +185,260 @@ const SettingsDrawer: React.FC<SettingsDrawerProps> = ({ isOpen, onClose, isApiK
             </div>
           </section>
 
+          {/* Provider Section */}
+          <section className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h4 className="text-xs font-black text-slate-500 uppercase tracking-widest">Logic Engine Provider</h4>
+              <i className="fa-solid fa-server text-slate-700"></i>
+            </div>
+            <div className="grid grid-cols-1 gap-2">
+              {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => (
+                <button
+                  key={id}
+                  type="button"
+                  onClick={() => setProvider(id)}
+                  className={`w-full text-left px-4 py-3 rounded-lg border text-xs font-bold uppercase tracking-widest transition-all ${provider === id ? 'bg-blue-600/10 border-blue-500/40 text-blue-400' : 'bg-slate-950 border-slate-800 text-slate-500 hover:text-slate-300'}`}
+                >
+                  {PROVIDER_LABELS[id]}
+                </button>
+              ))}
+            </div>
+            {provider === 'mock' && (
+              <p className="text-xs text-slate-400 leading-relaxed">Returns deterministic fixture data without any network calls. Useful for offline development and demos.</p>
+            )}
+            <label className="flex items-center justify-between gap-4 p-3 bg-slate-950 border border-slate-800 rounded-lg cursor-pointer">
+              <span className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">Stream insight blocks as they complete</span>
+              <input
+                type="checkbox"
+                checked={streamInsights}
+                onChange={e => setStreamInsights(e.target.checked)}
+                className="accent-blue-500"
+              />
+            </label>
+          </section>
+
           {/* Gemini API Key Section */}
+          {provider === 'gemini' && (
+            <section className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h4 className="text-xs font-black text-slate-500 uppercase tracking-widest">Gemini AI Configuration</h4>
+                <i className="fa-solid fa-key text-slate-700"></i>
+              </div>
+              <p className="text-xs text-slate-400 leading-relaxed">
+                Add your Gemini API key to enable quiz analysis and insight generation.
+                <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 ml-1 underline">
+                  Get your API key here
+                </a>
+              </p>
+              <div>
+                <label className="block text-[10px] text-slate-500 uppercase mb-1 ml-1">API Key</label>
+                <input
+                  type="password"
+                  value={geminiApiKey}
+                  onChange={e => setGeminiApiKey(e.target.value)}
+                  placeholder="Enter your Gemini API key..."
+                  className="w-full bg-slate-950 border border-slate-800 rounded-lg p-3 text-sm text-slate-300 focus:ring-1 focus:ring-blue-500 outline-none transition-all placeholder:text-slate-800 font-mono"
+                />
+                {!isApiKeySet && (
+                  <p className="text-[10px] text-red-400 mt-2 ml-1">⚠️ API key required for the app to function</p>
+                )}
+              </div>
+            </section>
+          )}
+
+          {/* OpenAI-Compatible Section */}
+          {provider === 'openai' && (
+            <section className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h4 className="text-xs font-black text-slate-500 uppercase tracking-widest">Local Model Server</h4>
+                <i className="fa-solid fa-microchip text-slate-700"></i>
+              </div>
+              <p className="text-xs text-slate-400 leading-relaxed">Point at any OpenAI-compatible endpoint such as Ollama or llama.cpp. PDF uploads and Google Search grounding are only available with Gemini.</p>
+              <div className="space-y-3">
+                {(['baseUrl', 'model', 'apiKey'] as const).map(key => (
+                  <div key={key}>
+                    <label className="block text-[10px] text-slate-500 uppercase mb-1 ml-1">{key}</label>
+                    <input
+                      type={key === 'apiKey' ? 'password' : 'text'}
+                      value={openaiConfig[key]}
+                      onChange={e => setOpenaiConfig({ ...openaiConfig, [key]: e.target.value })}
+                      placeholder={key === 'apiKey' ? 'Optional' : `Enter ${key}...`}
+                      className="w-full bg-slate-950 border border-slate-800 rounded-lg p-3 text-sm text-slate-300 focus:ring-1 focus:ring-blue-500 outline-none transition-all placeholder:text-slate-800 font-mono"
+                    />
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {/* Exam Profiles */}
           <section className="space-y-4">
             <div className="flex items-center justify-between">
-              <h4 className="text-xs font-black text-slate-500 uppercase tracking-widest">Gemini AI Configuration</h4>
-              <i className="fa-solid fa-key text-slate-700"></i>
-            </div>
-            <p className="text-xs text-slate-400 leading-relaxed">
-              Add your Gemini API key to enable quiz analysis and insight generation.
-              <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 ml-1 underline">
-                Get your API key here
-              </a>
-            </p>
+              <h4 className="text-xs font-black text-slate-500 uppercase tracking-widest">Exam Profiles</h4>
+              <i className="fa-solid fa-graduation-cap text-slate-700"></i>
+            </div>
+            <p className="text-xs text-slate-400 leading-relaxed">AZ-104 is built in. Paste a profile as JSON to study another exam; only id, name and examCode are required. Each profile stores its principles in a separate vault collection.</p>
+            {customProfiles.length > 0 && (
+              <div className="space-y-2">
+                {customProfiles.map(p => (
+                  <div key={p.id} className="flex items-center justify-between bg-slate-950 border border-slate-800 rounded-lg px-3 py-2">
+                    <span className="text-xs text-slate-300 font-bold">{p.examCode} · {p.name}</span>
+                    <button
+                      onClick={() => updateCustomProfiles(customProfiles.filter(c => c.id !== p.id))}
+                      className="text-slate-600 hover:text-red-400 transition-colors"
+                    >
+                      <i className="fa-solid fa-trash-can text-xs"></i>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <textarea
+              value={profileJson}
+              onChange={e => setProfileJson(e.target.value)}
+              placeholder={PROFILE_JSON_PLACEHOLDER}
+              className="w-full h-36 bg-slate-950 border border-slate-800 rounded-lg p-3 text-xs text-slate-300 font-mono focus:ring-1 focus:ring-blue-500 outline-none transition-all placeholder:text-slate-800 resize-none"
+            />
+            {profileError && <p className="text-[10px] text-red-400 ml-1">{profileError}</p>}
+            <button
+              onClick={addProfile}
+              disabled={!profileJson.trim()}
+              className="w-full py-3 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-300 text-xs font-bold rounded-lg uppercase tracking-widest transition-colors"
+            >
+              Add Profile
+            </button>
+          </section>
+
+          {/* Prompt Templates */}
+          <section className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h4 className="text-xs font-black text-slate-500 uppercase tracking-widest">Prompt Templates</h4>
+              <i className="fa-solid fa-pen-ruler text-slate-700"></i>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {PROMPT_TEMPLATE_IDS.map(id => (
+                <button
+                  key={id}
+                  type="button"
+                  onClick={() => loadTemplate(id)}
+                  className={`px-3 py-2 rounded-lg border text-[10px] font-bold uppercase tracking-widest transition-all ${templateId === id ? 'bg-blue-600/10 border-blue-500/40 text-blue-400' : 'bg-slate-950 border-slate-800 text-slate-500 hover:text-slate-300'}`}
+                >
+                  {getPromptTemplate(id).name}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-slate-400">{promptTemplate.description}</p>
+              <span className={`shrink-0 ml-3 text-[10px] font-mono px-2 py-0.5 rounded border ${promptTemplate.isDefault ? 'text-slate-500 border-slate-800' : 'text-amber-400 border-amber-500/30'}`}>
+                v{promptTemplate.version}
+              </span>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {promptTemplate.variables.map(v => (
+                <span key={v} className="text-[10px] font-mono text-blue-400 bg-blue-500/10 px-1.5 py-0.5 rounded">{`{{${v}}}`}</span>
+              ))}
+            </div>
+            <textarea
+              value={templateDraft}
+              onChange={e => setTemplateDraft(e.target.value)}
+              className="w-full h-64 bg-slate-950 border border-slate-800 rounded-lg p-3 text-xs text-slate-300 font-mono focus:ring-1 focus:ring-blue-500 outline-none transition-all resize-y"
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={saveTemplate}
+                disabled={templateDraft === promptTemplate.template || !templateDraft.trim()}
+                className="py-3 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-300 text-xs font-bold rounded-lg uppercase tracking-widest transition-colors"
+              >
+                Save Template
+              </button>
+              <button
+                onClick={resetTemplate}
+                disabled={promptTemplate.isDefault}
+                className="py-3 bg-slate-800 hover:bg-red-900/30 hover:text-red-400 disabled:opacity-50 text-slate-400 text-xs font-bold rounded-lg uppercase tracking-widest transition-colors"
+              >
+                Reset to Default
+              </button>
+            </div>
             <div>
-              <label className="block text-[10px] text-slate-500 uppercase mb-1 ml-1">API Key</label>
+              <label className="block text-[10px] text-slate-500 uppercase mb-1 ml-1">Analogy Style</label>
               <input
-                type="password"
-                value={geminiApiKey}
-                onChange={e => setGeminiApiKey(e.target.value)}
-                placeholder="Enter your Gemini API key..."
-                className="w-full bg-slate-950 border border-slate-800 rounded-lg p-3 text-sm text-slate-300 focus:ring-1 focus:ring-blue-500 outline-none transition-all placeholder:text-slate-800 font-mono"
+                type="text"
+                value={analogyStyle}
+                onChange={e => setAnalogyStyle(e.target.value)}
+                className="w-full bg-slate-950 border border-slate-800 rounded-lg p-3 text-sm text-slate-300 focus:ring-1 focus:ring-blue-500 outline-none transition-all"
               />
-              {!isApiKeySet && (
-                <p className="text-[10px] text-red-400 mt-2 ml-1">⚠️ API key required for the app to function</p>
-              )}
+            </div>
+          </section>
+
+          {/* Batch Queue Settings */}
+          <section className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h4 className="text-xs font-black text-slate-500 uppercase tracking-widest">Batch Queue</h4>
+              <i className="fa-solid fa-layer-group text-slate-700"></i>
+            </div>
+            <p className="text-xs text-slate-400 leading-relaxed">Staged questions are split into chunks of this size. Higher concurrency finishes sooner but is more likely to hit rate limits.</p>
+            <div className="grid grid-cols-2 gap-3">
+              {([['chunkSize', 'Questions per batch'], ['concurrency', 'Parallel batches']] as const).map(([key, label]) => (
+                <div key={key}>
+                  <label className="block text-[10px] text-slate-500 uppercase mb-1 ml-1">{label}</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={key === 'concurrency' ? 4 : undefined}
+                    value={batchSettings[key]}
+                    onChange={e => setBatchSettings({ ...batchSettings, [key]: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                    className="w-full bg-slate-950 border border-slate-800 rounded-lg p-3 text-sm text-slate-300 focus:ring-1 focus:ring-blue-500 outline-none transition-all"
+                  />
+                </div>
+              ))}
+            </div>
+          </section>
+
+          {/* Local Documentation Corpus */}
+          <section className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h4 className="text-xs font-black text-slate-500 uppercase tracking-widest">Grounding Sources</h4>
+              <i className="fa-solid fa-book-open text-slate-700"></i>
+            </div>
+            <p className="text-xs text-slate-400 leading-relaxed">Import a folder or zip of Microsoft Learn markdown (e.g. the azure-docs repo) to ground insights offline. Matching passages are added to the prompt and cited per block.</p>
+            <div className="grid grid-cols-1 gap-2">
+              {(Object.keys(GROUNDING_MODE_LABELS) as GroundingMode[]).map(mode => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => setGroundingMode(mode)}
+                  className={`w-full text-left px-4 py-3 rounded-lg border text-xs font-bold uppercase tracking-widest transition-all ${groundingMode === mode ? 'bg-blue-600/10 border-blue-500/40 text-blue-400' : 'bg-slate-950 border-slate-800 text-slate-500 hover:text-slate-300'}`}
+                >
+                  {GROUNDING_MODE_LABELS[mode]}
+                </button>
+              ))}
+            </div>
+            <CorpusManager />
+          </section>
+
+          {/* Usage & Budget */}
+          <section className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h4 className="text-xs font-black text-slate-500 uppercase tracking-widest">Usage & Budget</h4>
+              <i className="fa-solid fa-coins text-slate-700"></i>
+            </div>
+            <p className="text-xs text-slate-400 leading-relaxed">Costs are estimated from the token counts each provider reports. Model calls are blocked once today's or this month's spend reaches its limit; leave a limit blank to disable it.</p>
+            <UsagePanel budget={getBudget()} />
+            <div className="grid grid-cols-2 gap-3">
+              {USAGE_FIELDS.map(([key, label]) => (
+                <div key={key}>
+                  <label className="block text-[10px] text-slate-500 uppercase mb-1 ml-1">{label}</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={usageSettings[key]}
+                    onChange={e => setUsageSettings({ ...usageSettings, [key]: e.target.value })}
+                    placeholder={key.endsWith('Budget') ? 'No limit' : '0.00'}
+                    className="w-full bg-slate-950 border border-slate-800 rounded-lg p-3 text-sm text-slate-300 focus:ring-1 focus:ring-blue-500 outline-none transition-all placeholder:text-slate-800"
+                  />
+                </div>
+              ))}
             </div>
           </section>
 
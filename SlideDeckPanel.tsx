@@ -0,0 +1,138 @@
+import React, { useMemo, useState } from 'react';
+import { ExtractionResult } from './types';
+import { downloadFile, toNoteName } from './insightExport';
+import { buildSlides, getSlideThemeId, saveSlideThemeId, SLIDE_THEMES, SlideThemeId, slidesToHtml, slidesToPptx } from './slideDeck';
+
+interface SlideDeckPanelProps {
+  result: ExtractionResult;
+}
+
+const SlideDeckPanel: React.FC<SlideDeckPanelProps> = ({ result }) => {
+  const [themeId, setThemeId] = useState<SlideThemeId>(getSlideThemeId);
+  const [index, setIndex] = useState(0);
+  const [showNotes, setShowNotes] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const slides = useMemo(() => buildSlides(result), [result]);
+  const theme = SLIDE_THEMES[themeId];
+  const current = Math.min(index, slides.length - 1);
+  const slide = slides[current];
+  const deckTitle = `${result.examCode ? `${result.examCode} ` : ''}${result.domain}`;
+  const fileBase = toNoteName(deckTitle, 60);
+  const color = (hex: string) => `#${hex}`;
+
+  const handleTheme = (id: SlideThemeId) => {
+    setThemeId(id);
+    saveSlideThemeId(id);
+  };
+
+  const handlePptx = async () => {
+    setExporting(true);
+    try {
+      downloadFile(`${fileBase}.pptx`, await slidesToPptx(slides, theme, deckTitle), 'application/vnd.openxmlformats-officedocument.presentationml.presentation');
+    } catch (err: any) {
+      alert(err.message || 'Failed to build the PowerPoint file.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 p-4 rounded-xl space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <div className="flex items-center gap-2">
+          <span className="text-blue-400 font-bold tracking-widest text-[10px] uppercase mr-2">Slide Deck</span>
+          {(Object.keys(SLIDE_THEMES) as SlideThemeId[]).map(id => (
+            <button
+              key={id}
+              onClick={() => handleTheme(id)}
+              className={`px-3 py-1 rounded-full border text-[10px] font-bold transition-colors flex items-center gap-1.5 ${id === themeId ? 'bg-blue-500/10 border-blue-500/40 text-blue-300' : 'border-slate-800 text-slate-500 hover:text-slate-300'}`}
+            >
+              <span className="w-2.5 h-2.5 rounded-full border border-slate-600" style={{ background: color(SLIDE_THEMES[id].accent) }}></span>
+              {SLIDE_THEMES[id].label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => downloadFile(`${fileBase} (Slides).html`, slidesToHtml(slides, theme, deckTitle), 'text/html')}
+            className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-xs font-medium transition-colors flex items-center gap-2"
+          >
+            <i className="fa-solid fa-display"></i>
+            HTML
+          </button>
+          <button
+            onClick={handlePptx}
+            disabled={exporting}
+            className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-300 rounded-lg text-xs font-medium transition-colors flex items-center gap-2"
+          >
+            <i className={`fa-solid ${exporting ? 'fa-spinner animate-spin' : 'fa-file-powerpoint'}`}></i>
+            PPTX
+          </button>
+        </div>
+      </div>
+
+      {/* Mirrors the exported layout: rule as the title, up to four content boxes */}
+      <div
+        className="aspect-video w-full rounded-lg overflow-hidden flex flex-col p-[5%] relative"
+        style={{ background: color(theme.background), color: color(theme.text), fontFamily: theme.font }}
+      >
+        {slide.kind === 'title' ? (
+          <div className="flex-1 flex flex-col justify-center">
+            <h3 className="text-3xl font-bold" style={{ color: color(theme.title) }}>{slide.title}</h3>
+            <p className="text-base mt-2" style={{ color: color(theme.muted) }}>{slide.subtitle}</p>
+          </div>
+        ) : (
+          <>
+            <h3 className="text-lg font-bold leading-snug pl-3 border-l-4 line-clamp-3" style={{ color: color(theme.title), borderColor: color(theme.accent) }}>
+              {slide.title}
+            </h3>
+            {slide.subtitle && <p className="text-[11px] italic mt-2 line-clamp-1" style={{ color: color(theme.muted) }}>{slide.subtitle}</p>}
+            <div className="flex-1 grid grid-cols-2 gap-2 mt-3 min-h-0">
+              {slide.sections.map(section => (
+                <div key={section.label} className="rounded-md p-2.5 overflow-hidden" style={{ background: color(theme.surface) }}>
+                  <p className="text-[8px] font-bold uppercase tracking-widest mb-1" style={{ color: color(theme.accent) }}>{section.label}</p>
+                  <p className="text-[11px] leading-snug line-clamp-5">{section.text}</p>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+        <span className="absolute right-3 bottom-2 text-[9px]" style={{ color: color(theme.muted) }}>{current + 1} / {slides.length}</span>
+      </div>
+
+      <div className="flex justify-between items-center">
+        <button
+          onClick={() => setShowNotes(!showNotes)}
+          className="text-[10px] font-bold text-slate-500 hover:text-blue-400 uppercase tracking-widest transition-colors"
+        >
+          <i className="fa-solid fa-note-sticky mr-1.5"></i>
+          {showNotes ? 'Hide Speaker Notes' : 'Speaker Notes'}
+        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setIndex(current - 1)}
+            disabled={current === 0}
+            className="w-8 h-8 bg-slate-800 hover:bg-slate-700 disabled:opacity-30 text-slate-300 rounded-lg transition-colors"
+          >
+            <i className="fa-solid fa-chevron-left text-xs"></i>
+          </button>
+          <button
+            onClick={() => setIndex(current + 1)}
+            disabled={current === slides.length - 1}
+            className="w-8 h-8 bg-slate-800 hover:bg-slate-700 disabled:opacity-30 text-slate-300 rounded-lg transition-colors"
+          >
+            <i className="fa-solid fa-chevron-right text-xs"></i>
+          </button>
+        </div>
+      </div>
+      {showNotes && (
+        <pre className="p-3 bg-slate-950 border border-slate-800 rounded-xl text-[11px] text-slate-400 whitespace-pre-wrap font-sans">
+          {slide.notes || 'No speaker notes for this slide.'}
+        </pre>
+      )}
+    </div>
+  );
+};
+
+export default SlideDeckPanel;
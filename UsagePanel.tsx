@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { UsageBudget, UsageTotals, clearLedger, formatUsd, getRecentOperations, getUsageTotals } from './usageLedger';
+
+interface UsagePanelProps {
+  budget: UsageBudget;
+}
+
+const TASK_LABELS = {
+  clean: 'Answer scrape',
+  insights: 'Insight extraction'
+};
+
+const UsageMeter: React.FC<{ label: string; totals: UsageTotals; limit: number | null }> = ({ label, totals, limit }) => {
+  const percent = limit ? Math.min(100, (totals.costUsd / Math.max(limit, 0.0001)) * 100) : 0;
+  const overBudget = limit !== null && totals.costUsd >= limit;
+
+  return (
+    <div className="p-4 rounded-xl border bg-slate-950 border-slate-800 space-y-2">
+      <div className="flex justify-between items-baseline">
+        <p className="text-[10px] font-bold uppercase text-slate-500">{label}</p>
+        <p className="text-[10px] text-slate-600">{totals.calls} calls</p>
+      </div>
+      <p className={`text-lg font-black ${overBudget ? 'text-red-400' : 'text-slate-200'}`}>
+        {formatUsd(totals.costUsd)}
+        {limit !== null && <span className="text-xs font-medium text-slate-500"> / {formatUsd(limit)}</span>}
+      </p>
+      {limit !== null && (
+        <div className="h-1 bg-slate-800 rounded-full overflow-hidden">
+          <div className={`h-full ${overBudget ? 'bg-red-500' : 'bg-emerald-500'}`} style={{ width: `${percent}%` }}></div>
+        </div>
+      )}
+      <p className="text-[10px] text-slate-600 font-mono">
+        {totals.promptTokens.toLocaleString()} in / {totals.outputTokens.toLocaleString()} out
+      </p>
+    </div>
+  );
+};
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ budget }) => {
+  const [totals, setTotals] = useState(() => getUsageTotals());
+  const [operations, setOperations] = useState(() => getRecentOperations());
+
+  const handleClear = () => {
+    if (!confirm("Clear the local usage ledger? Budget totals will restart from zero.")) return;
+    clearLedger();
+    setTotals(getUsageTotals());
+    setOperations(getRecentOperations());
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <UsageMeter label="Today" totals={totals.today} limit={budget.dailyUsd} />
+        <UsageMeter label="This Month" totals={totals.month} limit={budget.monthlyUsd} />
+      </div>
+
+      {operations.length > 0 ? (
+        <div className="bg-slate-950 border border-slate-800 rounded-xl divide-y divide-slate-800/60">
+          {operations.map(op => (
+            <div key={op.operationId} className="flex justify-between items-center px-4 py-2 text-xs">
+              <div>
+                <p className="text-slate-300 font-medium">{TASK_LABELS[op.task]}</p>
+                <p className="text-[10px] text-slate-600">
+                  {new Date(op.at).toLocaleString()} • {op.calls} call{op.calls === 1 ? '' : 's'}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="text-slate-200 font-bold">{formatUsd(op.costUsd)}</p>
+                <p className="text-[10px] text-slate-600 font-mono">{(op.promptTokens + op.outputTokens).toLocaleString()} tok</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-slate-600 italic">No model calls recorded yet.</p>
+      )}
+
+      {operations.length > 0 && (
+        <button onClick={handleClear} className="text-[10px] font-bold text-slate-500 hover:text-red-400 uppercase tracking-widest transition-colors">
+          Clear usage ledger
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -1,29 +1,38 @@
 
 import React, { useState, useEffect } from 'react';
-import { fetchVault, VaultItem } from './firebase';
+import { fetchMistakeVault, fetchVault, VaultItem, VaultMistakeItem } from './firebase';
+import { buildVaultExport } from './insightExport';
+import ExportMenu from './ExportMenu';
 
-const VaultView: React.FC = () => {
+interface VaultViewProps {
+  examCode: string;
+}
+
+const VaultView: React.FC<VaultViewProps> = ({ examCode }) => {
   const [items, setItems] = useState<VaultItem[]>([]);
+  const [mistakes, setMistakes] = useState<VaultMistakeItem[]>([]);
+  const [tab, setTab] = useState<'principles' | 'mistakes'>('principles');
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState('');
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
+  // Hashes selected for export; principles and mistakes live in separate collections, so each tab keeps its own set
+  const [selected, setSelected] = useState<Record<'principles' | 'mistakes', Set<string>>>({ principles: new Set(), mistakes: new Set() });
 
   useEffect(() => {
     const load = async () => {
-      const data = await fetchVault();
+      const [data, mistakeData] = await Promise.all([fetchVault(), fetchMistakeVault()]);
       setItems(data);
+      setMistakes(mistakeData);
       setLoading(false);
     };
     load();
   }, []);
 
-  const filteredItems = items.filter(item => {
-    const matchesSearch =
-      item.foundationalRule.toLowerCase().includes(search.toLowerCase()) ||
-      item.domain.toLowerCase().includes(search.toLowerCase());
+  const matchesFilters = (texts: string[], date: string) => {
+    const matchesSearch = texts.some(text => text.toLowerCase().includes(search.toLowerCase()));
 
-    const itemDate = new Date(item.masteredAt).getTime();
+    const itemDate = new Date(date).getTime();
     const start = startDate ? new Date(startDate).setHours(0, 0, 0, 0) : null;
     const end = endDate ? new Date(endDate).setHours(23, 59, 59, 999) : null;
 
@@ -31,7 +40,35 @@ const VaultView: React.FC = () => {
     const matchesEndDate = end ? itemDate <= end : true;
 
     return matchesSearch && matchesStartDate && matchesEndDate;
-  });
+  };
+
+  const filteredItems = items.filter(item => matchesFilters([item.foundationalRule, item.domain], item.masteredAt));
+  const filteredMistakes = mistakes.filter(item =>
+    matchesFilters([item.domain, item.chosenAnswer, item.misconception, item.disprovingRule], item.recordedAt)
+  );
+  const visibleCount = tab === 'principles' ? filteredItems.length : filteredMistakes.length;
+
+  const visibleHashes = tab === 'principles' ? filteredItems.map(i => i.hash) : filteredMistakes.map(i => i.hash);
+  const selectedCount = selected.principles.size + selected.mistakes.size;
+  const allVisibleSelected = visibleHashes.length > 0 && visibleHashes.every(h => selected[tab].has(h));
+
+  const toggleSelected = (hash: string) => {
+    setSelected(prev => {
+      const next = new Set(prev[tab]);
+      if (next.has(hash)) next.delete(hash); else next.add(hash);
+      return { ...prev, [tab]: next };
+    });
+  };
+
+  const toggleAllVisible = () => {
+    setSelected(prev => ({ ...prev, [tab]: allVisibleSelected ? new Set<string>() : new Set(visibleHashes) }));
+  };
+
+  const getExport = () => buildVaultExport(
+    examCode,
+    items.filter(i => selected.principles.has(i.hash)),
+    mistakes.filter(i => selected.mistakes.has(i.hash))
+  );
 
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
@@ -60,13 +97,35 @@ const VaultView: React.FC = () => {
           <h2 className="text-2xl font-black text-white flex items-center gap-3">
             <i className="fa-solid fa-vault text-blue-500"></i>
             PRINCIPLE ARCHIVE
+            <span className="text-[10px] font-black text-blue-400 uppercase tracking-widest bg-blue-500/10 px-2 py-1 rounded">{examCode}</span>
           </h2>
-          <button
-            onClick={clearFilters}
-            className="text-xs font-bold text-slate-500 hover:text-blue-400 uppercase tracking-widest transition-colors"
-          >
-            Clear All Filters
-          </button>
+          <div className="bg-slate-900 border border-slate-800 p-1 rounded-xl flex gap-1">
+            {([['principles', 'Principles', items.length], ['mistakes', 'Mistakes', mistakes.length]] as const).map(([id, label, count]) => (
+              <button
+                key={id}
+                onClick={() => setTab(id)}
+                className={`px-4 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${tab === id ? (id === 'mistakes' ? 'bg-red-500/10 text-red-400' : 'bg-blue-600 text-white') : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                {label} ({count})
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={toggleAllVisible}
+              disabled={visibleHashes.length === 0}
+              className="text-xs font-bold text-slate-500 hover:text-blue-400 uppercase tracking-widest transition-colors"
+            >
+              {allVisibleSelected ? 'Deselect Visible' : 'Select Visible'}
+            </button>
+            <ExportMenu getResult={getExport} disabled={selectedCount === 0} label={`EXPORT (${selectedCount})`} />
+            <button
+              onClick={clearFilters}
+              className="text-xs font-bold text-slate-500 hover:text-blue-400 uppercase tracking-widest transition-colors"
+            >
+              Clear All Filters
+            </button>
+          </div>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-4 bg-slate-900/50 p-4 border border-slate-800 rounded-2xl">
@@ -74,7 +133,7 @@ const VaultView: React.FC = () => {
             <i className="fa-solid fa-magnifying-glass absolute left-4 top-1/2 -translate-y-1/2 text-slate-500 text-sm"></i>
             <input
               type="text"
-              placeholder="Search domain or rule text..."
+              placeholder={tab === 'principles' ? "Search domain or rule text..." : "Search domain, answer or misconception..."}
               value={search}
               onChange={(e) => setSearch(e.target.value)}
               className="w-full bg-slate-950 border border-slate-800 rounded-xl py-3 pl-12 pr-4 text-sm text-slate-300 focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all"
@@ -101,20 +160,51 @@ const VaultView: React.FC = () => {
         </div>
       </div>
 
-      {filteredItems.length === 0 ? (
+      {visibleCount === 0 ? (
         <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-12 text-center space-y-4">
           <i className="fa-solid fa-filter-circle-xmark text-slate-700 text-5xl"></i>
-          <p className="text-slate-400 italic">No principles found matching these filters. Try broadening your search.</p>
+          <p className="text-slate-400 italic">No {tab} found matching these filters. Try broadening your search.</p>
+        </div>
+      ) : tab === 'mistakes' ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {filteredMistakes.map((item) => (
+            <div key={item.hash} className={`bg-slate-900 border p-6 rounded-2xl hover:border-red-500/40 transition-all space-y-4 shadow-sm ${selected.mistakes.has(item.hash) ? 'border-red-500/40' : 'border-slate-800'}`}>
+              <div className="flex justify-between items-start">
+                <label className="flex items-center gap-3 cursor-pointer">
+                  <input type="checkbox" checked={selected.mistakes.has(item.hash)} onChange={() => toggleSelected(item.hash)} className="accent-red-500" />
+                  <span className="text-[10px] font-black text-red-400 uppercase tracking-widest bg-red-500/10 px-2 py-1 rounded">
+                    {item.domain}
+                  </span>
+                </label>
+                <span className="text-[10px] text-slate-600 font-mono flex items-center gap-1">
+                  <i className="fa-regular fa-calendar text-[9px]"></i>
+                  {new Date(item.recordedAt).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' })}
+                </span>
+              </div>
+              <p className="text-sm text-slate-400">
+                <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest mr-2">I chose:</span>
+                <span className="line-through decoration-red-500/60">{item.chosenAnswer}</span>
+              </p>
+              <div className="space-y-3 text-sm">
+                <p className="text-slate-300"><span className="text-[10px] font-black text-red-300 uppercase tracking-widest block mb-1">Misconception</span>{item.misconception}</p>
+                <p className="text-slate-200 font-semibold"><span className="text-[10px] font-black text-emerald-400 uppercase tracking-widest block mb-1">Disproving Rule</span>{item.disprovingRule}</p>
+                <p className="text-slate-400"><span className="text-[10px] font-black text-blue-300 uppercase tracking-widest block mb-1">Elimination Cue</span>{item.examEliminationCue}</p>
+              </div>
+            </div>
+          ))}
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           {filteredItems.map((item) => (
-            <div key={item.hash} className="group bg-slate-900 border border-slate-800 p-6 rounded-2xl hover:border-blue-500/50 transition-all flex flex-col justify-between shadow-sm hover:shadow-blue-900/10">
+            <div key={item.hash} className={`group bg-slate-900 border p-6 rounded-2xl hover:border-blue-500/50 transition-all flex flex-col justify-between shadow-sm hover:shadow-blue-900/10 ${selected.principles.has(item.hash) ? 'border-blue-500/50' : 'border-slate-800'}`}>
               <div className="space-y-4">
                 <div className="flex justify-between items-start">
-                  <span className="text-[10px] font-black text-blue-500 uppercase tracking-widest bg-blue-500/10 px-2 py-1 rounded">
-                    {item.domain}
-                  </span>
+                  <label className="flex items-center gap-3 cursor-pointer">
+                    <input type="checkbox" checked={selected.principles.has(item.hash)} onChange={() => toggleSelected(item.hash)} className="accent-blue-500" />
+                    <span className="text-[10px] font-black text-blue-500 uppercase tracking-widest bg-blue-500/10 px-2 py-1 rounded">
+                      {item.domain}
+                    </span>
+                  </label>
                   <span className="text-[10px] text-slate-600 font-mono flex items-center gap-1">
                     <i className="fa-regular fa-calendar text-[9px]"></i>
                     {new Date(item.masteredAt).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' })}
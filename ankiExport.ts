@@ -0,0 +1,388 @@
+import sqlWasmUrl from "sql.js/dist/sql-wasm.wasm?url";
+import { ExtractionResult, InsightBlock } from "./types";
+import { INSIGHT_FIELDS } from "./groundingCitations";
+import { summarizeAnswer } from "./questionFormat";
+import { getQuestionHash } from "./firebase";
+import { createZip } from "./zipWriter";
+
+export const ANKI_STORAGE_KEYS = {
+  settings: 'anki_export_settings'
+};
+
+export type AnkiNoteKind = 'basic' | 'cloze';
+
+export interface AnkiTemplates {
+  basicFront: string;
+  basicBack: string;
+  clozeText: string;
+  clozeExtra: string;
+}
+
+export interface AnkiSettings {
+  // Supports {{examCode}} and {{domain}}; "::" separates sub-decks
+  deckName: string;
+  tagPrefix: string;
+  noteKinds: Record<AnkiNoteKind, boolean>;
+  templates: AnkiTemplates;
+}
+
+export const DEFAULT_ANKI_SETTINGS: AnkiSettings = {
+  deckName: 'Analogical Insights::{{examCode}}',
+  tagPrefix: 'insight',
+  noteKinds: { basic: true, cloze: true },
+  templates: {
+    basicFront: '{{examEliminationCue}}',
+    basicBack: '{{foundationalRule}}<br><br><i>{{memoryHook}}</i>',
+    clozeText: '{{cloze:foundationalRule}}',
+    clozeExtra: '{{memoryHook}}<br><br>{{commonConfusion}}'
+  }
+};
+
+// Placeholders available in templates besides the insight fields
+export const ANKI_EXTRA_PLACEHOLDERS = ['question', 'answer', 'domain', 'examCode'] as const;
+
+// Note types the TSV targets; every Anki profile ships with these two
+const TSV_NOTETYPES: Record<AnkiNoteKind, string> = { basic: 'Basic', cloze: 'Cloze' };
+
+// Fixed so every .apkg export reuses the same note types instead of adding copies
+const MODEL_IDS: Record<AnkiNoteKind, number> = { basic: 1718300000101, cloze: 1718300000102 };
+const MODEL_NAMES: Record<AnkiNoteKind, string> = { basic: 'Analogical Insight (Basic)', cloze: 'Analogical Insight (Cloze)' };
+
+// More cloze deletions than this per field turns one rule into a stack of near-identical cards
+const MAX_CLOZE_TERMS = 3;
+
+export interface AnkiNote {
+  guid: string;
+  kind: AnkiNoteKind;
+  deck: string;
+  fields: [string, string];
+  tags: string[];
+}
+
+export const getAnkiSettings = (): AnkiSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(ANKI_STORAGE_KEYS.settings) || '{}');
+    return {
+      ...DEFAULT_ANKI_SETTINGS,
+      ...saved,
+      noteKinds: { ...DEFAULT_ANKI_SETTINGS.noteKinds, ...saved.noteKinds },
+      templates: { ...DEFAULT_ANKI_SETTINGS.templates, ...saved.templates }
+    };
+  } catch {
+    return DEFAULT_ANKI_SETTINGS;
+  }
+};
+
+export const saveAnkiSettings = (settings: AnkiSettings) => {
+  localStorage.setItem(ANKI_STORAGE_KEYS.settings, JSON.stringify(settings));
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toFieldHtml = (text: string) => escapeHtml(text).replace(/\r?\n/g, '<br>');
+
+const stripHtml = (html: string) =>
+  html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]+>/g, '').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Quoted phrases, then capitalised names and acronyms (multi-word runs like "Azure Blob Storage" stay whole)
+const QUOTED_TERM = /[“"`]([^“”"`]{2,60})[”"`]/g;
+const NAMED_TERM = /\b[A-Z][A-Za-z0-9]*(?:[ -][A-Z][A-Za-z0-9]*)*\b/g;
+
+const findClozeTerms = (text: string): { start: number; end: number }[] => {
+  const quoted = Array.from(text.matchAll(QUOTED_TERM)).map(m => ({ start: m.index! + 1, end: m.index! + m[0].length - 1 }));
+  if (quoted.length) return quoted.slice(0, MAX_CLOZE_TERMS);
+
+  return Array.from(text.matchAll(NAMED_TERM))
+    .filter(m => {
+      // A lone capitalised word opening a sentence ("Use", "Always") is grammar, not a term
+      const opensSentence = m.index === 0 || /[.!?:]\s*$/.test(text.slice(0, m.index));
+      return !opensSentence || m[0].includes(' ') || /[A-Z0-9]/.test(m[0].slice(1));
+    })
+    .filter((m, i, all) => all.findIndex(other => other[0] === m[0]) === i)
+    .slice(0, MAX_CLOZE_TERMS)
+    .map(m => ({ start: m.index!, end: m.index! + m[0].length }));
+};
+
+/**
+ * Wraps the key terms of a field in cloze deletions, numbering them from
+ * `firstNumber` so each term becomes its own card. Fields with no
+ * recognisable term are hidden whole.
+ */
+const toClozeHtml = (text: string, firstNumber: number): { html: string; next: number } => {
+  const value = text.trim();
+  if (!value) return { html: '', next: firstNumber };
+  const terms = findClozeTerms(value);
+  if (terms.length === 0) return { html: `{{c${firstNumber}::${toFieldHtml(value)}}}`, next: firstNumber + 1 };
+
+  let html = '';
+  let cursor = 0;
+  terms.forEach((term, i) => {
+    html += toFieldHtml(value.slice(cursor, term.start)) + `{{c${firstNumber + i}::${escapeHtml(value.slice(term.start, term.end))}}}`;
+    cursor = term.end;
+  });
+  html += toFieldHtml(value.slice(cursor));
+  return { html, next: firstNumber + terms.length };
+};
+
+const PLACEHOLDER = /\{\{\s*(cloze:)?\s*([A-Za-z]+)\s*\}\}/g;
+
+/**
+ * Fills {{field}} and {{cloze:field}} placeholders. Values are escaped and
+ * line breaks become <br>; the template itself is trusted HTML. Unknown
+ * placeholders render empty.
+ */
+const renderTemplate = (template: string, values: Record<string, string>): string => {
+  let next = 1;
+  return template
+    .replace(PLACEHOLDER, (_, cloze: string | undefined, name: string) => {
+      const value = (values[name] || '').trim();
+      if (!cloze) return toFieldHtml(value);
+      const rendered = toClozeHtml(value, next);
+      next = rendered.next;
+      return rendered.html;
+    })
+    // Drop the wrappers and separators left behind by empty fields
+    .replace(/<(i|b|small)><\/\1>/g, '')
+    .replace(/(?:<br>\s*){3,}/g, '<br><br>')
+    .replace(/^(?:\s*<br>)+|(?:<br>\s*)+$/g, '')
+    .trim();
+};
+
+// Anki tags cannot contain spaces; "/" in a domain becomes a tag hierarchy level
+const toTag = (text: string) =>
+  text.trim().split(/\s*[/>]\s*/).map(part => part.replace(/\s+/g, '_').replace(/[^\p{L}\p{N}_-]/gu, '')).filter(Boolean).join('::');
+
+const renderDeckName = (template: string, values: Record<string, string>) =>
+  template
+    .replace(PLACEHOLDER, (_, __, name: string) => values[name] || '')
+    .split('::')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .join('::') || 'Default';
+
+// Vault exports use the question hash as the block id; fresh batches carry it in questionHashes
+const QUESTION_HASH = /^[0-9a-f]{64}$/;
+
+const getBlockQuestionHash = async (result: ExtractionResult, block: InsightBlock): Promise<string> => {
+  const id = block.sourceQuestionId;
+  return result.questionHashes?.[id] || (QUESTION_HASH.test(id) ? id : getQuestionHash(block.foundationalRule));
+};
+
+/**
+ * Turns insight blocks into Anki notes. Each note's guid is derived from the
+ * source question's cache/vault hash (or the rule when there is none) and
+ * whether the block is a principle or a mistake, so importing a later export
+ * of the same question updates the existing note from a batch or the vault alike.
+ */
+export const buildAnkiNotes = async (result: ExtractionResult, settings: AnkiSettings): Promise<AnkiNote[]> => {
+  const notes: AnkiNote[] = [];
+  const prefix = toTag(settings.tagPrefix);
+  const withPrefix = (tag: string) => prefix ? `${prefix}::${tag}` : tag;
+
+  for (const block of result.blocks) {
+    const question = result.questions?.find(q => q.id === block.sourceQuestionId);
+    const domain = result.blockDomains?.[block.sourceQuestionId] || result.domain;
+    const values: Record<string, string> = {
+      ...Object.fromEntries(INSIGHT_FIELDS.map(field => [field, block[field] || ''])),
+      question: question?.text || '',
+      answer: question ? summarizeAnswer(question) : '',
+      domain,
+      examCode: result.examCode || ''
+    };
+    const id = `${block.mistake ? 'm' : 'p'}-${(await getBlockQuestionHash(result, block)).slice(0, 16)}`;
+    const deck = renderDeckName(settings.deckName, values);
+    const tags = [
+      withPrefix(`domain::${toTag(domain) || 'general'}`),
+      ...(result.examCode ? [withPrefix(`exam::${toTag(result.examCode)}`)] : []),
+      ...(block.mistake ? [withPrefix('mistake')] : [])
+    ];
+
+    if (settings.noteKinds.basic) {
+      const front = renderTemplate(settings.templates.basicFront, values);
+      const back = renderTemplate(settings.templates.basicBack, values);
+      if (stripHtml(front) && stripHtml(back)) {
+        notes.push({ guid: `ie-b-${id}`, kind: 'basic', deck, fields: [front, back], tags });
+      }
+    }
+    if (settings.noteKinds.cloze) {
+      const text = renderTemplate(settings.templates.clozeText, values);
+      if (/\{\{c\d+::/.test(text)) {
+        notes.push({ guid: `ie-c-${id}`, kind: 'cloze', deck, fields: [text, renderTemplate(settings.templates.clozeExtra, values)], tags });
+      }
+    }
+  }
+  return notes;
+};
+
+const tsvField = (value: string) => {
+  const flat = value.replace(/\t/g, ' ').replace(/\r?\n/g, '<br>');
+  return flat.includes('"') ? `"${flat.replace(/"/g, '""')}"` : flat;
+};
+
+/**
+ * Anki 2.1.55+ text import. The header lines preselect the guid, note type,
+ * deck and tags columns, so matching guids update notes in place.
+ */
+export const notesToTsv = (notes: AnkiNote[]): string => [
+  '#separator:tab',
+  '#html:true',
+  '#guid column:1',
+  '#notetype column:2',
+  '#deck column:3',
+  '#tags column:6',
+  ...notes.map(note =>
+    [note.guid, TSV_NOTETYPES[note.kind], note.deck, ...note.fields, note.tags.join(' ')].map(tsvField).join('\t'))
+].join('\n') + '\n';
+
+// Stable 44-bit ids from hex digests: well inside JS's safe integer range and SQLite's int64
+const idFromHex = (hex: string) => parseInt(hex.slice(0, 11), 16);
+
+const sha1Checksum = async (text: string) => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text)));
+  return ((digest[0] << 24) >>> 0) + (digest[1] << 16) + (digest[2] << 8) + digest[3];
+};
+
+const clozeOrdinals = (text: string) =>
+  Array.from(new Set(Array.from(text.matchAll(/\{\{c(\d+)::/g)).map(m => parseInt(m[1], 10) - 1))).sort((a, b) => a - b);
+
+const APKG_SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const CARD_CSS = '.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }\n.cloze { font-weight: bold; color: blue; }';
+const LATEX_PRE = '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n';
+
+const buildModel = (kind: AnkiNoteKind, deckId: number, mod: number) => {
+  const [first, second] = kind === 'basic' ? ['Front', 'Back'] : ['Text', 'Back Extra'];
+  return {
+    id: MODEL_IDS[kind],
+    name: MODEL_NAMES[kind],
+    type: kind === 'basic' ? 0 : 1,
+    mod,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    flds: [first, second].map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+    tmpls: [{
+      name: kind === 'basic' ? 'Card 1' : 'Cloze',
+      ord: 0,
+      qfmt: kind === 'basic' ? '{{Front}}' : '{{cloze:Text}}',
+      afmt: kind === 'basic' ? '{{FrontSide}}<hr id=answer>{{Back}}' : '{{cloze:Text}}<br>{{Back Extra}}',
+      did: null,
+      bqfmt: '',
+      bafmt: ''
+    }],
+    css: CARD_CSS,
+    latexPre: LATEX_PRE,
+    latexPost: '\\end{document}',
+    tags: [],
+    vers: [],
+    ...(kind === 'basic' ? { req: [[0, 'all', [0]]] } : {})
+  };
+};
+
+const buildDeck = (id: number, name: string, mod: number) => ({
+  id,
+  name,
+  desc: '',
+  mod,
+  usn: -1,
+  collapsed: false,
+  browserCollapsed: false,
+  dyn: 0,
+  conf: 1,
+  extendNew: 10,
+  extendRev: 50,
+  newToday: [0, 0],
+  revToday: [0, 0],
+  lrnToday: [0, 0],
+  timeToday: [0, 0]
+});
+
+const DEFAULT_DECK_CONFIG = {
+  id: 1,
+  name: 'Default',
+  mod: 0,
+  usn: 0,
+  maxTaken: 60,
+  autoplay: true,
+  timer: 0,
+  replayq: true,
+  dyn: false,
+  new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+  lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+  rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 100 }
+};
+
+/**
+ * Builds an .apkg (legacy "collection.anki2" schema 11, which every Anki
+ * version imports) entirely in the browser with sql.js. Note, card, deck and
+ * note type ids are derived from guids and names rather than timestamps, so
+ * re-importing an updated export replaces cards instead of duplicating them.
+ */
+export const buildApkg = async (notes: AnkiNote[]): Promise<Uint8Array> => {
+  const { default: initSqlJs } = await import('sql.js');
+  const SQL = await initSqlJs({ locateFile: () => sqlWasmUrl });
+  const db = new SQL.Database();
+
+  try {
+    const now = Date.now();
+    const mod = Math.floor(now / 1000);
+    const deckNames = Array.from(new Set(notes.map(n => n.deck)));
+    const deckIds = new Map<string, number>();
+    for (const name of deckNames) deckIds.set(name, idFromHex(await getQuestionHash(`deck:${name}`)));
+    const firstDeckId = deckIds.get(deckNames[0]) ?? 1;
+
+    const decks: Record<string, unknown> = { 1: buildDeck(1, 'Default', mod) };
+    deckIds.forEach((id, name) => { decks[id] = buildDeck(id, name, mod); });
+    const models = {
+      [MODEL_IDS.basic]: buildModel('basic', firstDeckId, mod),
+      [MODEL_IDS.cloze]: buildModel('cloze', firstDeckId, mod)
+    };
+    const conf = {
+      activeDecks: [1], curDeck: 1, newSpread: 0, collapseTime: 1200, timeLim: 0, estTimes: true,
+      dueCounts: true, curModel: null, nextPos: notes.length + 1, sortType: 'noteFld', sortBackwards: false, addToCur: true
+    };
+
+    db.run(APKG_SCHEMA);
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      Math.floor(now / 86400000) * 86400, now, now,
+      JSON.stringify(conf), JSON.stringify(models), JSON.stringify(decks), JSON.stringify({ 1: DEFAULT_DECK_CONFIG }), '{}'
+    ]);
+
+    for (const [i, note] of notes.entries()) {
+      const noteId = idFromHex(await getQuestionHash(note.guid));
+      const sortField = stripHtml(note.fields[0]);
+      db.run('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')', [
+        noteId, note.guid, MODEL_IDS[note.kind], mod, ` ${note.tags.join(' ')} `,
+        note.fields.join('\x1f'), sortField, await sha1Checksum(sortField)
+      ]);
+      // Card ids are hashed per ordinal too; cloze notes can have any number of c1..cN deletions
+      const ordinals = note.kind === 'basic' ? [0] : clozeOrdinals(note.fields[0]);
+      for (const ord of ordinals) {
+        db.run('INSERT INTO cards VALUES (?, ?, ?, ?, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')', [
+          idFromHex(await getQuestionHash(`${note.guid}:${ord}`)), noteId, deckIds.get(note.deck)!, ord, mod, i + 1
+        ]);
+      }
+    }
+
+    return createZip([
+      { path: 'collection.anki2', data: db.export() },
+      { path: 'media', data: '{}' }
+    ]);
+  } finally {
+    db.close();
+  }
+};
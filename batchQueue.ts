@@ -0,0 +1,180 @@
+import { ExtractionResult, GroundingSource } from "./types";
+import { addTokenUsage, emptyTokenUsage } from "./usageLedger";
+
+export const BATCH_STORAGE_KEYS = {
+  chunkSize: 'batch_chunk_size',
+  concurrency: 'batch_concurrency'
+};
+
+const DEFAULT_CHUNK_SIZE = 6;
+const DEFAULT_CONCURRENCY = 1;
+const MAX_CONCURRENCY = 4;
+
+export interface BatchSettings {
+  chunkSize: number;
+  concurrency: number;
+}
+
+const readPositiveInt = (key: string, fallback: number, max?: number): number => {
+  const value = parseInt(localStorage.getItem(key) || '', 10);
+  if (!Number.isFinite(value) || value < 1) return fallback;
+  return max ? Math.min(value, max) : value;
+};
+
+export const getBatchSettings = (): BatchSettings => ({
+  chunkSize: readPositiveInt(BATCH_STORAGE_KEYS.chunkSize, DEFAULT_CHUNK_SIZE),
+  concurrency: readPositiveInt(BATCH_STORAGE_KEYS.concurrency, DEFAULT_CONCURRENCY, MAX_CONCURRENCY)
+});
+
+export const chunkItems = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+export const mergeExtractionResults = (results: ExtractionResult[]): ExtractionResult => {
+  const domains = Array.from(new Set(results.map(r => r.domain).filter(Boolean)));
+  const sources: GroundingSource[] = [];
+  results.forEach(r => (r.sources || []).forEach(source => {
+    if (!sources.some(s => s.uri === source.uri)) sources.push(source);
+  }));
+
+  return {
+    domain: domains.join(' / '),
+    blocks: results.flatMap(r => r.blocks),
+    sources,
+    questions: results.flatMap(r => r.questions || []),
+    examCode: results[0]?.examCode,
+    promptVersion: results[0]?.promptVersion,
+    cachedQuestionIds: results.flatMap(r => r.cachedQuestionIds || []),
+    questionHashes: Object.assign({}, ...results.map(r => r.questionHashes)),
+    usage: results.reduce((total, r) => (r.usage ? addTokenUsage(total, r.usage) : total), emptyTokenUsage())
+  };
+};
+
+export interface BatchQueueState {
+  totalChunks: number;
+  completedChunks: number;
+  failedChunks: number;
+  runningChunks: number;
+  paused: boolean;
+}
+
+export interface ChunkFailure<T> {
+  chunkIndex: number;
+  items: T[];
+  error: Error;
+}
+
+// Results of the chunks that completed (in chunk order) and the chunks that threw
+export interface BatchRunResult<T, R> {
+  results: R[];
+  failures: ChunkFailure<T>[];
+}
+
+export interface BatchQueueOptions<T, R> {
+  items: T[];
+  chunkSize: number;
+  concurrency: number;
+  process: (chunk: T[], chunkIndex: number, signal: AbortSignal) => Promise<R>;
+  onChunkComplete?: (result: R, chunkIndex: number) => void | Promise<void>;
+  onStateChange?: (state: BatchQueueState) => void;
+}
+
+export interface BatchQueue<T, R> {
+  run: () => Promise<BatchRunResult<T, R>>;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+}
+
+/**
+ * Splits items into chunks and processes them with a fixed number of workers.
+ * Pausing lets in-flight chunks finish but holds back the next ones until resumed;
+ * cancelling aborts in-flight chunks through their signal. A chunk that fails is
+ * recorded and the rest keep going, so one bad chunk doesn't discard the others.
+ */
+export const createBatchQueue = <T, R>({
+  items,
+  chunkSize,
+  concurrency,
+  process,
+  onChunkComplete,
+  onStateChange
+}: BatchQueueOptions<T, R>): BatchQueue<T, R> => {
+  const chunks = chunkItems(items, chunkSize);
+  const results: (R | undefined)[] = new Array(chunks.length);
+  const failures: ChunkFailure<T>[] = [];
+  const controller = new AbortController();
+  const state: BatchQueueState = { totalChunks: chunks.length, completedChunks: 0, failedChunks: 0, runningChunks: 0, paused: false };
+  let nextIndex = 0;
+  let resumeWaiters: (() => void)[] = [];
+
+  const emit = () => onStateChange?.({ ...state });
+
+  const waitWhilePaused = () =>
+    state.paused ? new Promise<void>(resolve => resumeWaiters.push(resolve)) : Promise.resolve();
+
+  const worker = async () => {
+    while (nextIndex < chunks.length) {
+      await waitWhilePaused();
+      if (controller.signal.aborted) throw new DOMException('Request cancelled.', 'AbortError');
+      if (nextIndex >= chunks.length) return;
+
+      const index = nextIndex++;
+      state.runningChunks++;
+      emit();
+      try {
+        const result = await process(chunks[index], index, controller.signal);
+        results[index] = result;
+        await onChunkComplete?.(result, index);
+        state.completedChunks++;
+      } catch (err: any) {
+        if (controller.signal.aborted || err?.name === 'AbortError') throw err;
+        failures.push({ chunkIndex: index, items: chunks[index], error: err instanceof Error ? err : new Error(String(err)) });
+        state.failedChunks++;
+      } finally {
+        state.runningChunks--;
+        emit();
+      }
+    }
+  };
+
+  const releaseWaiters = () => {
+    resumeWaiters.forEach(resolve => resolve());
+    resumeWaiters = [];
+  };
+
+  return {
+    run: async () => {
+      emit();
+      const workers = Array.from({ length: Math.min(concurrency, chunks.length) }, worker);
+      try {
+        await Promise.all(workers);
+      } catch (err) {
+        controller.abort();
+        releaseWaiters();
+        throw err;
+      }
+      return {
+        results: results.filter((r): r is R => r !== undefined),
+        failures: failures.sort((a, b) => a.chunkIndex - b.chunkIndex)
+      };
+    },
+    pause: () => {
+      state.paused = true;
+      emit();
+    },
+    resume: () => {
+      state.paused = false;
+      releaseWaiters();
+      emit();
+    },
+    cancel: () => {
+      controller.abort();
+      releaseWaiters();
+    }
+  };
+};
@@ -0,0 +1,320 @@
+import { GroundingSource } from "./types";
+import { readZipTextFiles } from "./zipReader";
+
+export type GroundingMode = 'web' | 'local' | 'hybrid';
+
+export const CORPUS_STORAGE_KEYS = {
+  mode: 'grounding_mode',
+  version: 'corpus_version'
+};
+
+export const GROUNDING_MODE_LABELS: Record<GroundingMode, string> = {
+  web: 'Google Search only',
+  local: 'Local corpus only (offline)',
+  hybrid: 'Local corpus + Google Search'
+};
+
+const DB_NAME = 'ms_learn_corpus';
+const DB_VERSION = 1;
+const STORE_NAME = 'passages';
+
+const MAX_PASSAGE_CHARS = 1200;
+const PASSAGES_PER_QUESTION = 3;
+const MAX_CONTEXT_PASSAGES = 12;
+const DOC_EXTENSIONS = /\.(md|markdown|txt)$/i;
+const LEARN_BASE_URL = 'https://learn.microsoft.com/en-us/azure/';
+const LOCAL_CORPUS_DOMAIN = 'local-corpus';
+
+export interface CorpusPassage {
+  id: string;
+  path: string;
+  title: string;
+  uri: string;
+  domain: string;
+  text: string;
+}
+
+export interface RetrievedPassage extends CorpusPassage {
+  tag: string;
+  score: number;
+}
+
+export const getGroundingMode = (): GroundingMode => {
+  const saved = localStorage.getItem(CORPUS_STORAGE_KEYS.mode);
+  return saved === 'local' || saved === 'hybrid' ? saved : 'web';
+};
+
+// Changes on every import or clear so cached insights grounded on an older corpus are not reused.
+export const getCorpusVersion = (): string => localStorage.getItem(CORPUS_STORAGE_KEYS.version) || 'empty';
+
+const bumpCorpusVersion = () => localStorage.setItem(CORPUS_STORAGE_KEYS.version, Date.now().toString(36));
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      store.createIndex('path', 'path');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const runRequest = <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  openDb().then(db => new Promise<T>((resolve, reject) => {
+    const request = fn(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+
+const replacePassages = (staleIds: string[], passages: CorpusPassage[]): Promise<void> =>
+  openDb().then(db => new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    staleIds.forEach(id => store.delete(id));
+    passages.forEach(p => store.put(p));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  }));
+
+// --- Markdown chunking ---
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9\s-]/g, '').trim().replace(/\s+/g, '-');
+
+const readFrontMatter = (markdown: string): { meta: Record<string, string>; body: string } => {
+  const match = markdown.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) return { meta: {}, body: markdown };
+  const meta: Record<string, string> = {};
+  match[1].split(/\r?\n/).forEach(line => {
+    const kv = line.match(/^([\w.]+):\s*(.+)$/);
+    if (kv) meta[kv[1]] = kv[2].trim().replace(/^['"]|['"]$/g, '');
+  });
+  return { meta, body: markdown.slice(match[0].length) };
+};
+
+// MS Learn repos keep published pages under articles/; anything else stays a local reference.
+const buildDocUri = (path: string): { uri: string; domain: string } => {
+  const articles = path.split('/').indexOf('articles');
+  if (articles >= 0) {
+    const rest = path.split('/').slice(articles + 1).join('/').replace(DOC_EXTENSIONS, '');
+    return { uri: `${LEARN_BASE_URL}${rest}`, domain: 'learn.microsoft.com' };
+  }
+  return { uri: `corpus://${path}`, domain: LOCAL_CORPUS_DOMAIN };
+};
+
+const cleanMarkdown = (text: string) =>
+  text
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/\[!INCLUDE[^\]]*\]\([^)]*\)/gi, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^>\s*\[!(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\]\s*$/gim, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+/**
+ * Splits a markdown document into heading-scoped passages of at most
+ * MAX_PASSAGE_CHARS, breaking long sections on paragraph boundaries.
+ */
+export const chunkMarkdown = (path: string, markdown: string): CorpusPassage[] => {
+  const { meta, body } = readFrontMatter(markdown);
+  const docTitle = meta.title || body.match(/^#\s+(.+)$/m)?.[1]?.trim() || path.split('/').pop() || path;
+  const { uri, domain } = buildDocUri(path);
+
+  const sections: { heading: string; text: string }[] = [];
+  let current = { heading: '', text: '' };
+  body.split(/\r?\n/).forEach(line => {
+    const heading = line.match(/^#{1,3}\s+(.+)$/);
+    if (heading) {
+      if (current.text.trim()) sections.push(current);
+      current = { heading: heading[1].trim(), text: '' };
+    } else {
+      current.text += `${line}\n`;
+    }
+  });
+  if (current.text.trim()) sections.push(current);
+
+  const passages: CorpusPassage[] = [];
+  sections.forEach(section => {
+    const paragraphs = cleanMarkdown(section.text).split(/\n\s*\n/).filter(p => p.trim());
+    let buffer = '';
+    const flush = () => {
+      if (!buffer.trim()) return;
+      const anchor = section.heading && section.heading !== docTitle ? `#${slugify(section.heading)}` : '';
+      passages.push({
+        id: `${path}::${passages.length}`,
+        path,
+        title: section.heading && section.heading !== docTitle ? `${docTitle} › ${section.heading}` : docTitle,
+        uri: `${uri}${anchor}`,
+        domain,
+        text: buffer.trim()
+      });
+      buffer = '';
+    };
+    paragraphs.forEach(paragraph => {
+      if (buffer && buffer.length + paragraph.length > MAX_PASSAGE_CHARS) flush();
+      buffer += `${paragraph.slice(0, MAX_PASSAGE_CHARS)}\n\n`;
+    });
+    flush();
+  });
+  return passages;
+};
+
+// --- Lexical index (BM25) ---
+
+const STOPWORDS = new Set(
+  'a an and are as at be by can do does for from has have how i if in into is it its may must not of on or should that the their then there these this to use used using was what when where which while will with you your'.split(' ')
+);
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(t => t.length > 1 && !STOPWORDS.has(t));
+
+interface CorpusIndex {
+  passages: CorpusPassage[];
+  termFreqs: Map<string, number>[];
+  lengths: number[];
+  docFreq: Map<string, number>;
+  avgLength: number;
+}
+
+let indexPromise: Promise<CorpusIndex> | null = null;
+
+const buildIndex = async (): Promise<CorpusIndex> => {
+  const passages = await runRequest<CorpusPassage[]>('readonly', store => store.getAll());
+  const docFreq = new Map<string, number>();
+  const termFreqs = passages.map(p => {
+    const freqs = new Map<string, number>();
+    tokenize(`${p.title} ${p.text}`).forEach(t => freqs.set(t, (freqs.get(t) || 0) + 1));
+    freqs.forEach((_, t) => docFreq.set(t, (docFreq.get(t) || 0) + 1));
+    return freqs;
+  });
+  const lengths = termFreqs.map(f => Array.from(f.values()).reduce((a, b) => a + b, 0));
+  const avgLength = lengths.reduce((a, b) => a + b, 0) / Math.max(lengths.length, 1);
+  return { passages, termFreqs, lengths, docFreq, avgLength };
+};
+
+// The index is rebuilt lazily from IndexedDB after every import or clear.
+const getIndex = () => {
+  if (!indexPromise) {
+    indexPromise = buildIndex().catch(err => {
+      indexPromise = null;
+      throw err;
+    });
+  }
+  return indexPromise;
+};
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export const searchCorpus = async (query: string, limit: number): Promise<(CorpusPassage & { score: number })[]> => {
+  const index = await getIndex();
+  const terms = Array.from(new Set(tokenize(query)));
+  const total = index.passages.length;
+  if (total === 0 || terms.length === 0) return [];
+
+  return index.passages
+    .map((passage, i) => {
+      const freqs = index.termFreqs[i];
+      const norm = BM25_K1 * (1 - BM25_B + BM25_B * (index.lengths[i] / index.avgLength));
+      const score = terms.reduce((sum, term) => {
+        const tf = freqs.get(term);
+        if (!tf) return sum;
+        const df = index.docFreq.get(term) || 0;
+        const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+        return sum + idf * ((tf * (BM25_K1 + 1)) / (tf + norm));
+      }, 0);
+      return { ...passage, score };
+    })
+    .filter(p => p.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+/**
+ * Retrieves the top passages for each question and tags them [P1], [P2], ...
+ * so the model can cite them inline. Passages shared between questions are
+ * only included once.
+ */
+export const retrievePassages = async (queries: string[]): Promise<RetrievedPassage[]> => {
+  const seen = new Map<string, RetrievedPassage>();
+  for (const query of queries) {
+    for (const hit of await searchCorpus(query, PASSAGES_PER_QUESTION)) {
+      if (seen.size >= MAX_CONTEXT_PASSAGES) break;
+      if (!seen.has(hit.id)) seen.set(hit.id, { ...hit, tag: `P${seen.size + 1}` });
+    }
+  }
+  return Array.from(seen.values());
+};
+
+export const formatPassagesForPrompt = (passages: RetrievedPassage[]): string => `
+### REFERENCE DOCUMENTATION PASSAGES:
+Ground every block in these passages. When a statement relies on a passage, end it with the passage tag, e.g. "[P2]".
+Do not invent tags; if no passage supports a statement, leave it untagged.
+
+${passages.map(p => `[${p.tag}] ${p.title}\n${p.text}`).join('\n\n')}
+`;
+
+export const passageToSource = (passage: CorpusPassage): GroundingSource => ({
+  title: passage.title,
+  uri: passage.uri,
+  domain: passage.domain
+});
+
+// --- Import & management ---
+
+export interface CorpusStats {
+  documents: number;
+  passages: number;
+}
+
+export const getCorpusStats = async (): Promise<CorpusStats> => {
+  try {
+    const index = await getIndex();
+    return { documents: new Set(index.passages.map(p => p.path)).size, passages: index.passages.length };
+  } catch {
+    return { documents: 0, passages: 0 };
+  }
+};
+
+export const importCorpusDocuments = async (docs: { path: string; text: string }[]): Promise<CorpusStats> => {
+  const passages = docs.flatMap(doc => chunkMarkdown(doc.path, doc.text));
+  // Re-importing a file replaces its previous passages
+  const paths = new Set(docs.map(d => d.path));
+  const existing = await runRequest<CorpusPassage[]>('readonly', store => store.getAll());
+  await replacePassages(existing.filter(p => paths.has(p.path)).map(p => p.id), passages);
+
+  indexPromise = null;
+  bumpCorpusVersion();
+  return { documents: docs.length, passages: passages.length };
+};
+
+export const importCorpusFiles = async (files: File[]): Promise<CorpusStats> => {
+  const docs: { path: string; text: string }[] = [];
+  for (const file of files) {
+    const path = (file.webkitRelativePath || file.name).replace(/\\/g, '/');
+    if (file.name.toLowerCase().endsWith('.zip')) {
+      docs.push(...await readZipTextFiles(await file.arrayBuffer(), p => DOC_EXTENSIONS.test(p)));
+    } else if (DOC_EXTENSIONS.test(file.name)) {
+      docs.push({ path, text: await file.text() });
+    }
+  }
+  if (docs.length === 0) throw new Error('No markdown or text documents found in the selection.');
+  return importCorpusDocuments(docs);
+};
+
+export const clearCorpus = async () => {
+  await runRequest('readwrite', store => store.clear());
+  indexPromise = null;
+  bumpCorpusVersion();
+};
@@ -0,0 +1,105 @@
+import { ExamProfile } from "./types";
+
+export const PROFILE_STORAGE_KEYS = {
+  active: 'active_exam_profile',
+  custom: 'exam_profiles_custom'
+};
+
+export const AZ104_PROFILE: ExamProfile = {
+  id: 'az-104',
+  name: 'Microsoft Azure Administrator',
+  examCode: 'AZ-104',
+  skillsOutline: [
+    'Manage Azure identities and governance',
+    'Implement and manage storage',
+    'Deploy and manage Azure compute resources',
+    'Implement and manage virtual networking',
+    'Monitor and maintain Azure resources'
+  ],
+  groundingDomains: ['learn.microsoft.com'],
+  allowedSourceDomains: ['microsoft.com', 'azure.com'],
+  vaultCollection: 'az104_master_principles',
+  builtIn: true
+};
+
+export const BUILT_IN_PROFILES: ExamProfile[] = [AZ104_PROFILE];
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string');
+
+/**
+ * Builds a profile from user-supplied JSON. Only id, name and examCode are
+ * required; grounding domains and the vault collection fall back to defaults
+ * derived from the exam code, and prompts fall back to the prompt registry.
+ */
+export const parseProfileJson = (json: string): ExamProfile => {
+  let raw: any;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Profile is not valid JSON.');
+  }
+
+  const issues: string[] = [];
+  ['id', 'name', 'examCode'].forEach(key => {
+    if (typeof raw?.[key] !== 'string' || !raw[key].trim()) issues.push(`"${key}" must be a non-empty string`);
+  });
+  ['skillsOutline', 'groundingDomains', 'allowedSourceDomains', 'deniedSourceDomains'].forEach(key => {
+    if (raw?.[key] !== undefined && !isStringArray(raw[key])) issues.push(`"${key}" must be an array of strings`);
+  });
+  ['extractionPrompt', 'cleanerPrompt', 'vaultCollection'].forEach(key => {
+    if (raw?.[key] !== undefined && typeof raw[key] !== 'string') issues.push(`"${key}" must be a string`);
+  });
+  if (issues.length > 0) throw new Error(`Invalid profile: ${issues.join('; ')}`);
+
+  const id = raw.id.trim().toLowerCase();
+  if (BUILT_IN_PROFILES.some(p => p.id === id)) {
+    throw new Error(`Profile id "${id}" is reserved by a built-in profile.`);
+  }
+
+  return {
+    id,
+    name: raw.name.trim(),
+    examCode: raw.examCode.trim(),
+    skillsOutline: raw.skillsOutline || [],
+    extractionPrompt: raw.extractionPrompt || undefined,
+    cleanerPrompt: raw.cleanerPrompt || undefined,
+    groundingDomains: raw.groundingDomains?.length ? raw.groundingDomains : ['learn.microsoft.com'],
+    allowedSourceDomains: raw.allowedSourceDomains || [],
+    deniedSourceDomains: raw.deniedSourceDomains || [],
+    vaultCollection: raw.vaultCollection || `${raw.examCode.trim().toLowerCase().replace(/[^a-z0-9]+/g, '')}_master_principles`
+  };
+};
+
+export const getCustomProfiles = (): ExamProfile[] => {
+  try {
+    const saved = localStorage.getItem(PROFILE_STORAGE_KEYS.custom);
+    return saved ? (JSON.parse(saved) as ExamProfile[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomProfiles = (profiles: ExamProfile[]) => {
+  localStorage.setItem(PROFILE_STORAGE_KEYS.custom, JSON.stringify(profiles));
+};
+
+export const getAllProfiles = (): ExamProfile[] => [...BUILT_IN_PROFILES, ...getCustomProfiles()];
+
+export const getActiveProfile = (): ExamProfile => {
+  const activeId = localStorage.getItem(PROFILE_STORAGE_KEYS.active);
+  return getAllProfiles().find(p => p.id === activeId) || AZ104_PROFILE;
+};
+
+export const setActiveProfileId = (id: string) => {
+  localStorage.setItem(PROFILE_STORAGE_KEYS.active, id);
+};
+
+export const getProfileTemplateVars = (profile: ExamProfile): Record<string, string> => ({
+  exam: profile.examCode,
+  examName: profile.name,
+  skillsOutline: profile.skillsOutline.length
+    ? profile.skillsOutline.map(s => `- ${s}`).join('\n')
+    : '- (not specified)',
+  groundingDomains: profile.groundingDomains.join(', ')
+});
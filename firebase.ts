@@ -1,8 +1,14 @@
 
 import { initializeApp, getApp, getApps, FirebaseApp } from "firebase/app";
 import { getFirestore, collection, doc, getDoc, setDoc, getDocs, query, orderBy, Firestore } from "firebase/firestore";
+import { getActiveProfile } from "./examProfiles";
+import { MistakeAnalysis } from "./types";
 
-const COLLECTION_NAME = "az104_master_principles";
+// Each exam profile keeps its mastered principles in its own collection
+const getCollectionName = () => getActiveProfile().vaultCollection;
+
+// Analysed mistakes live next to the principles but in a separate collection
+const getMistakeCollectionName = () => `${getActiveProfile().vaultCollection}_mistakes`;
 
 export interface VaultItem {
   hash: string;
@@ -11,6 +17,13 @@ export interface VaultItem {
   masteredAt: string;
 }
 
+export interface VaultMistakeItem extends MistakeAnalysis {
+  hash: string;
+  domain: string;
+  examEliminationCue: string;
+  recordedAt: string;
+}
+
 const getFirebaseConfig = () => {
   const local = localStorage.getItem('vault_firebase_config');
   if (local) return JSON.parse(local);
@@ -48,7 +61,7 @@ export const getQuestionHash = async (text: string): Promise<string> => {
 export const checkDuplicate = async (hash: string): Promise<boolean> => {
   try {
     const db = getDb();
-    const docRef = doc(db, COLLECTION_NAME, hash);
+    const docRef = doc(db, getCollectionName(), hash);
     const docSnap = await getDoc(docRef);
     return docSnap.exists();
   } catch (e) {
@@ -59,7 +72,7 @@ export const checkDuplicate = async (hash: string): Promise<boolean> => {
 export const saveToVault = async (hash: string, domain: string, rule: string) => {
   try {
     const db = getDb();
-    const docRef = doc(db, COLLECTION_NAME, hash);
+    const docRef = doc(db, getCollectionName(), hash);
     await setDoc(docRef, {
       masteredAt: new Date().toISOString(),
       domain,
@@ -72,10 +85,35 @@ export const saveToVault = async (hash: string, domain: string, rule: string) =>
 export const fetchVault = async (): Promise<VaultItem[]> => {
   try {
     const db = getDb();
-    const q = query(collection(db, COLLECTION_NAME), orderBy("masteredAt", "desc"));
+    const q = query(collection(db, getCollectionName()), orderBy("masteredAt", "desc"));
     const querySnapshot = await getDocs(q);
     return querySnapshot.docs.map(doc => doc.data() as VaultItem);
   } catch (e) {
     return [];
   }
 };
+
+export const saveMistakeToVault = async (hash: string, domain: string, mistake: MistakeAnalysis, eliminationCue: string) => {
+  try {
+    const db = getDb();
+    const docRef = doc(db, getMistakeCollectionName(), hash);
+    await setDoc(docRef, {
+      recordedAt: new Date().toISOString(),
+      domain,
+      ...mistake,
+      examEliminationCue: eliminationCue,
+      hash
+    });
+  } catch (e) {}
+};
+
+export const fetchMistakeVault = async (): Promise<VaultMistakeItem[]> => {
+  try {
+    const db = getDb();
+    const q = query(collection(db, getMistakeCollectionName()), orderBy("recordedAt", "desc"));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(doc => doc.data() as VaultMistakeItem);
+  } catch (e) {
+    return [];
+  }
+};
@@ -1,152 +1,380 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { AZ104Question, ExtractionResult, GroundingSource, ExtractedQuestion } from "./types";
-
-const EXTRACTION_PROMPT = `
-You are the "AZ-104 Concept Validation and Logic Extraction Engine." Your goal is to convert correctly answered AZ-104 quiz items into valid, reusable logic patterns rooted in official Microsoft Learn documentation and optimized for NotebookLM slide generation.
-
-### TASK:
-For each correctly answered input item:
-1. **Active Documentation Retrieval**: Use Google Search tool to query learn.microsoft.com for the relevant AZ-104 objective.
-2. **Principle Validation**: Identify the foundational Azure principle (e.g., control plane vs. data plane, statefulness, regional availability).
-3. **Abstraction into Core Rules**: Abstract the principle into a topic-neutral "Core Rule".
-4. **Reinforcement Synthesis**: Generate a non-technical analogy, an analogous foundational concept, and a common confusion.
-
-### OUTPUT STRUCTURE (JSON):
-- **domain**: The specific AZ-104 domain name.
-- **blocks**: Array of insight objects including foundationalRule, whyItWorks, analogy, analogousFoundationalConcept, commonConfusion, examEliminationCue, and memoryHook.
+import { Part, Type } from "@google/genai";
+import { ExamProfile, ExamQuestion, ExtractionMode, ExtractionResult, ExtractedQuestion, InputAttachment, InsightBlock, InsightField, TokenUsage } from "./types";
+import { getActiveProfile, getProfileTemplateVars } from "./examProfiles";
+import { getAnalogyStyle, getPromptTemplate, getPromptVersionLabel, PromptTemplateId, renderTemplate } from "./promptRegistry";
+import { getModelLabel, getProvider, LLMRequest, LLMResponse } from "./llmProvider";
+import { callWithRetry, ModelCallOptions } from "./modelCall";
+import { attachCitations, attachPassageCitations, classifySource, filterSources } from "./groundingCitations";
+import { summarizeAnswer } from "./questionFormat";
+import { formatPassagesForPrompt, getCorpusVersion, getGroundingMode, passageToSource, retrievePassages } from "./docCorpus";
+import { addTokenUsage, assertWithinBudget, createOperationId, emptyTokenUsage, recordUsage } from "./usageLedger";
+import {
+  parseModelJson,
+  parsePartialExtraction,
+  PartialExtraction,
+  validateExtractedQuestions,
+  validateExtractionResult,
+  validateFieldVariant,
+  ValidationError
+} from "./schemaValidation";
+
+// Appended to every profile's extraction prompt so block-to-question linkage survives custom templates.
+const LINKAGE_RULES = `
+### LINKAGE RULES:
+- Every input question has an "id". Return exactly one block per input question.
+- Set each block's sourceQuestionId to the id of the question it was derived from. Never merge questions into one block.
 `;
 
-const CLEANER_PROMPT = `
-You are the "AZ-104 Clean Answer Extractor." 
-### TASK:
-Analyze the provided data (raw text or document). 
-Extract ONLY the questions that were answered CORRECTLY. 
-Format them into a clean JSON array. 
-For each item, include the question text, the correct answer, and a brief official explanation.
-Do not include questions with incorrect answers.
-Identify the correct answer based on markings like "Correct Answer:", bolded options, or explanation notes.
-Max 6 questions per extraction.
+// Appended to every cleaner prompt so custom templates still produce the structured question types.
+const QUESTION_TYPE_RULES = `
+### QUESTION TYPES:
+Set "type" on every item and fill only the answer fields for that type:
+- "single": one correct option in "correctAnswer".
+- "multi-select" ("choose two", "select all that apply"): every correct option in "correctAnswers".
+- "ordering" (drag-and-drop sequences): the steps in the correct order in "orderedSteps".
+- "yes-no-series" (statements each answered Yes or No): "statements" as { "statement", "answer": "Yes" | "No" }.
+- "case-study": the shared scenario text in "scenario" (repeated on each question that uses it) and the answer in "correctAnswer".
+Whenever the question shows answer options, list every one of them verbatim in "options", correct and incorrect alike.
 `;
 
-const getApiKey = (): string => {
-  // First check localStorage (for browser runtime config)
-  const localKey = localStorage.getItem('gemini_api_key');
-  if (localKey) return localKey;
+// Added when several screenshots are sent together, since results pages are usually captured in overlapping slices.
+const SCREENSHOT_RULES = `
+### SCREENSHOTS:
+The following images are consecutive screenshots of the same practice-test results. Read them in order, join questions that are cut off between two images, and return each question only once even if it appears in more than one screenshot.
+`;
 
-  // Fallback to environment variable (for local dev)
-  return import.meta.env.VITE_API_KEY || '';
-};
+// Appended to the insight prompt when any staged question came with its answer options.
+const OPTION_BREAKDOWN_RULES = `
+### OPTION BREAKDOWN:
+For every input question that has "options", return "optionBreakdown" on its block with one entry per option, in the original order:
+- **option**: the option text, verbatim.
+- **isCorrect**: whether it is a correct answer.
+- **reason**: for correct options, the rule that makes it right; for distractors, the specific reason it is wrong (wrong scope, wrong service tier, wrong plane, etc.).
+Make examEliminationCue reference the pattern that knocks out these distractors.
+`;
 
-export const cleanAndExtractAnswers = async (rawText: string, pdfBase64?: string): Promise<ExtractedQuestion[]> => {
-  const apiKey = getApiKey();
-  if (!apiKey) {
-    throw new Error('No API key configured. Please add your Gemini API key in Settings.');
+const resolvePrompt = (id: PromptTemplateId, profile: ExamProfile, profileOverride?: string) => {
+  if (profileOverride) {
+    return { template: profileOverride, version: `${profile.id}:${id}@profile` };
   }
+  const registered = getPromptTemplate(id);
+  return { template: registered.template, version: getPromptVersionLabel(registered) };
+};
 
-  const ai = new GoogleGenAI({ apiKey });
-  const model = 'gemini-2.0-flash-exp';
+// Cached insight blocks are only reused when exam profile, prompt version, model and local corpus all match.
+export const getInsightVersionInfo = () => {
+  const profile = getActiveProfile();
+  const prompt = resolvePrompt('insight-extraction', profile, profile.extractionPrompt);
+  const mode = getGroundingMode();
+  const grounding = mode === 'web' ? '' : `|${mode}:${getCorpusVersion()}`;
+  const base = `${profile.id}|${prompt.version}|${getModelLabel('insights')}${grounding}`;
+  return {
+    examCode: profile.examCode,
+    promptVersion: prompt.version,
+    cacheVersion: base,
+    // Blocks for incorrectly answered questions also depend on the mistake-analysis prompt
+    mistakeCacheVersion: `${base}|${getPromptVersionLabel(getPromptTemplate('mistake-analysis'))}`
+  };
+};
 
-  const parts: any[] = [{ text: CLEANER_PROMPT }];
+const MAX_REASK_ATTEMPTS = 2;
 
-  if (pdfBase64) {
-    parts.push({
-      inlineData: {
-        mimeType: 'application/pdf',
-        data: pdfBase64
-      }
-    });
-  } else {
-    parts.push({ text: `RAW INPUT DATA:\n${rawText}` });
-  }
+const CALL_TIMEOUTS_MS: Record<LLMRequest['task'], number> = {
+  clean: 90_000,
+  insights: 240_000
+};
 
-  const response = await ai.models.generateContent({
-    model,
-    contents: { parts },
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            id: { type: Type.STRING },
-            text: { type: Type.STRING },
-            correctAnswer: { type: Type.STRING },
-            explanation: { type: Type.STRING }
-          },
-          required: ["text", "correctAnswer", "explanation"]
-        }
-      }
-    }
-  });
+export interface CleanCallOptions extends ModelCallOptions {
+  mode?: ExtractionMode;
+}
+
+export interface InsightCallOptions extends ModelCallOptions {
+  // When set and the provider supports it, the response is streamed and this fires as blocks complete.
+  onPartial?: (partial: PartialExtraction) => void;
+}
+
+/**
+ * Parses and validates the model output, re-asking with the validation issues when it fails.
+ * Every attempt is checked against the budget and recorded in the usage ledger, so re-asks count too.
+ */
+const generateValidated = async <T>(
+  request: LLMRequest,
+  validate: (value: unknown) => T,
+  operationId: string,
+  onText?: (text: string) => void
+): Promise<{ data: T; response: LLMResponse; usage: TokenUsage }> => {
+  const provider = getProvider();
+  const model = getModelLabel(request.task);
+  let parts = request.parts;
+  let usage = emptyTokenUsage();
 
-  const text = response.text || '[]';
-  return JSON.parse(text) as ExtractedQuestion[];
+  for (let attempt = 0; ; attempt++) {
+    assertWithinBudget();
+    const response = await callWithRetry(
+      signal => onText && provider.generateStream
+        ? provider.generateStream({ ...request, parts, signal }, onText)
+        : provider.generate({ ...request, parts, signal }),
+      { signal: request.signal, timeoutMs: CALL_TIMEOUTS_MS[request.task] }
+    );
+    if (response.usage) {
+      usage = addTokenUsage(usage, recordUsage(operationId, request.task, model, response.usage));
+    }
+    try {
+      return { data: validate(parseModelJson(response.text)), response, usage };
+    } catch (err) {
+      if (!(err instanceof ValidationError) || attempt >= MAX_REASK_ATTEMPTS) throw err;
+      parts = [
+        ...request.parts,
+        { text: `YOUR PREVIOUS RESPONSE FAILED VALIDATION:\n- ${err.issues.join('\n- ')}\nReturn the complete corrected JSON only.` }
+      ];
+    }
+  }
 };
 
-export const processInsights = async (questions: AZ104Question[]): Promise<ExtractionResult> => {
-  const apiKey = getApiKey();
-  if (!apiKey) {
-    throw new Error('No API key configured. Please add your Gemini API key in Settings.');
+export const cleanAndExtractAnswers = async (
+  rawText: string,
+  attachments: InputAttachment[] = [],
+  { signal, operationId = createOperationId('clean'), mode = 'correct' }: CleanCallOptions = {}
+): Promise<ExtractedQuestion[]> => {
+  const profile = getActiveProfile();
+  const prompt = mode === 'mistakes'
+    ? resolvePrompt('mistake-cleaner', profile)
+    : resolvePrompt('answer-cleaner', profile, profile.cleanerPrompt);
+  const parts: Part[] = [{ text: renderTemplate(prompt.template, getProfileTemplateVars(profile)) + QUESTION_TYPE_RULES }];
+
+  if (attachments.filter(a => a.mimeType.startsWith('image/')).length > 1) {
+    parts.push({ text: SCREENSHOT_RULES });
+  }
+  attachments.forEach(({ mimeType, data }) => parts.push({ inlineData: { mimeType, data } }));
+  if (rawText.trim()) {
+    parts.push({ text: `RAW INPUT DATA:\n${rawText}` });
   }
 
-  const ai = new GoogleGenAI({ apiKey });
-  const model = 'gemini-2.0-flash-thinking-exp-01-21';
-
-  const response = await ai.models.generateContent({
-    model,
-    contents: {
-      parts: [
-        { text: EXTRACTION_PROMPT },
-        { text: `INPUT QUESTIONS TO PROCESS:\n${JSON.stringify(questions)}` }
-      ]
-    },
-    config: {
-      tools: [{ googleSearch: {} }],
-      responseMimeType: "application/json",
-      responseSchema: {
+  const { data } = await generateValidated({
+    task: 'clean',
+    parts,
+    signal,
+    responseSchema: {
+      type: Type.ARRAY,
+      items: {
         type: Type.OBJECT,
         properties: {
-          domain: { type: Type.STRING },
-          blocks: {
+          id: { type: Type.STRING },
+          type: { type: Type.STRING, enum: ['single', 'multi-select', 'ordering', 'yes-no-series', 'case-study'] },
+          text: { type: Type.STRING },
+          scenario: { type: Type.STRING },
+          correctAnswer: { type: Type.STRING },
+          correctAnswers: { type: Type.ARRAY, items: { type: Type.STRING } },
+          userAnswer: { type: Type.STRING },
+          options: { type: Type.ARRAY, items: { type: Type.STRING } },
+          orderedSteps: { type: Type.ARRAY, items: { type: Type.STRING } },
+          statements: {
             type: Type.ARRAY,
             items: {
               type: Type.OBJECT,
               properties: {
-                foundationalRule: { type: Type.STRING },
-                whyItWorks: { type: Type.STRING },
-                analogy: { type: Type.STRING },
-                analogousFoundationalConcept: { type: Type.STRING },
-                commonConfusion: { type: Type.STRING },
-                examEliminationCue: { type: Type.STRING },
-                memoryHook: { type: Type.STRING }
+                statement: { type: Type.STRING },
+                answer: { type: Type.STRING, enum: ['Yes', 'No'] }
               },
-              required: ["foundationalRule", "whyItWorks", "analogy", "analogousFoundationalConcept", "commonConfusion", "examEliminationCue", "memoryHook"]
+              required: ["statement", "answer"]
             }
-          }
+          },
+          explanation: { type: Type.STRING }
         },
-        required: ["domain", "blocks"]
+        required: mode === 'mistakes' ? ["type", "text", "explanation", "userAnswer"] : ["type", "text", "explanation"]
       }
     }
+  }, value => validateExtractedQuestions(value, mode === 'mistakes'), operationId);
+
+  return data;
+};
+
+export const processInsights = async (
+  questions: ExamQuestion[],
+  { signal, onPartial, operationId = createOperationId('insights') }: InsightCallOptions = {}
+): Promise<ExtractionResult> => {
+  const profile = getActiveProfile();
+  const prompt = resolvePrompt('insight-extraction', profile, profile.extractionPrompt);
+  const questionBatch = JSON.stringify(questions);
+  const promptText = renderTemplate(prompt.template, {
+    ...getProfileTemplateVars(profile),
+    analogyStyle: getAnalogyStyle(),
+    questionBatch
   });
 
-  const sources: GroundingSource[] = [];
-  const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-  if (groundingChunks) {
-    groundingChunks.forEach((chunk: any) => {
-      if (chunk.web && chunk.web.uri && chunk.web.title) {
-        sources.push({ title: chunk.web.title, uri: chunk.web.uri });
-      }
-    });
+  // Templates that drop the {{questionBatch}} placeholder still get the questions as a separate part
+  const parts: Part[] = [{ text: promptText + LINKAGE_RULES }];
+  if (!prompt.template.includes('{{questionBatch}}')) {
+    parts.push({ text: `INPUT QUESTIONS TO PROCESS:\n${questionBatch}` });
   }
 
-  const textOutput = response.text || '{}';
-  const jsonStr = textOutput.replace(/```json\n?|\n?```/g, '').trim();
+  const optionCounts = Object.fromEntries(
+    questions.filter(q => q.options?.length).map(q => [q.id, q.options!.length])
+  );
+  if (Object.keys(optionCounts).length > 0) parts.push({ text: OPTION_BREAKDOWN_RULES });
+
+  // Incorrectly answered questions additionally get a "why my answer was wrong" analysis
+  const mistakeQuestionIds = questions.filter(q => q.userAnswer).map(q => q.id);
+  const mistakePrompt = getPromptTemplate('mistake-analysis');
+  if (mistakeQuestionIds.length > 0) {
+    parts.push({
+      text: renderTemplate(mistakePrompt.template, {
+        ...getProfileTemplateVars(profile),
+        mistakeQuestionIds: mistakeQuestionIds.join(', ')
+      })
+    });
+  }
 
-  try {
-    const result = JSON.parse(jsonStr) as ExtractionResult;
-    return { ...result, sources };
-  } catch (err) {
-    throw new Error("Invalid structure returned from AI. Try a smaller batch.");
+  // Local corpus passages are injected as tagged context; "local" mode also turns web search off
+  const groundingMode = getGroundingMode();
+  const passages = groundingMode === 'web'
+    ? []
+    : await retrievePassages(questions.map(q => `${q.text} ${summarizeAnswer(q)}`));
+  if (groundingMode === 'local' && passages.length === 0) {
+    throw new Error('Local grounding found no matching passages. Import documentation in Settings or switch the grounding mode.');
   }
-};
\ No newline at end of file
+  if (passages.length > 0) parts.push({ text: formatPassagesForPrompt(passages) });
+
+  let emittedBlocks = -1;
+  const handleStreamText = onPartial && ((text: string) => {
+    const partial = parsePartialExtraction(text);
+    if (partial.blocks.length !== emittedBlocks) {
+      emittedBlocks = partial.blocks.length;
+      onPartial(partial);
+    }
+  });
+
+  const { data, response, usage } = await generateValidated({
+    task: 'insights',
+    parts,
+    useSearch: groundingMode !== 'local',
+    questionIds: questions.map(q => q.id),
+    mistakeQuestionIds,
+    signal,
+    responseSchema: {
+      type: Type.OBJECT,
+      properties: {
+        domain: { type: Type.STRING },
+        blocks: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              sourceQuestionId: { type: Type.STRING },
+              foundationalRule: { type: Type.STRING },
+              whyItWorks: { type: Type.STRING },
+              analogy: { type: Type.STRING },
+              analogousFoundationalConcept: { type: Type.STRING },
+              commonConfusion: { type: Type.STRING },
+              examEliminationCue: { type: Type.STRING },
+              memoryHook: { type: Type.STRING },
+              optionBreakdown: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    option: { type: Type.STRING },
+                    isCorrect: { type: Type.BOOLEAN },
+                    reason: { type: Type.STRING }
+                  },
+                  required: ["option", "isCorrect", "reason"]
+                }
+              },
+              mistake: {
+                type: Type.OBJECT,
+                properties: {
+                  chosenAnswer: { type: Type.STRING },
+                  misconception: { type: Type.STRING },
+                  disprovingRule: { type: Type.STRING }
+                },
+                required: ["chosenAnswer", "misconception", "disprovingRule"]
+              }
+            },
+            required: ["sourceQuestionId", "foundationalRule", "whyItWorks", "analogy", "analogousFoundationalConcept", "commonConfusion", "examEliminationCue", "memoryHook"]
+          }
+        }
+      },
+      required: ["domain", "blocks"]
+    }
+  }, value => validateExtractionResult(value, {
+    questionIds: questions.map(q => q.id),
+    mistakeQuestionIds,
+    optionCounts
+  }), operationId, handleStreamText);
+
+  const webSources = filterSources(response.sources, profile);
+  const passageUris = Object.fromEntries(passages.map(p => [p.tag, p.uri]));
+  const blocks = attachPassageCitations(attachCitations(data.blocks, response.supports || [], webSources), passageUris)
+    // The chosen answer is already known, so record it verbatim rather than trusting the model's copy
+    .map(block => {
+      const userAnswer = questions.find(q => q.id === block.sourceQuestionId)?.userAnswer;
+      return block.mistake && userAnswer ? { ...block, mistake: { ...block.mistake, chosenAnswer: userAnswer } } : block;
+    });
+
+  // Passages the model cited surface as sources; if it cited none, all retrieved context is listed
+  const citedUris = new Set(blocks.flatMap(b => Object.values(b.citations || {}).flat()));
+  const citedPassages = passages.filter(p => citedUris.has(p.uri));
+  const corpusSources = (citedPassages.length > 0 ? citedPassages : passages)
+    .filter((p, i, all) => all.findIndex(o => o.uri === p.uri) === i)
+    .map(p => classifySource(passageToSource(p), profile));
+
+  return {
+    ...data,
+    blocks,
+    sources: [...webSources, ...corpusSources.filter(s => !webSources.some(w => w.uri === s.uri))],
+    questions,
+    examCode: profile.examCode,
+    promptVersion: mistakeQuestionIds.length > 0 ? `${prompt.version} + ${getPromptVersionLabel(mistakePrompt)}` : prompt.version,
+    usage
+  };
+};
+
+// What a good replacement looks like for each field, spliced into the field-regeneration prompt
+const FIELD_REGENERATION_GUIDANCE: Record<InsightField, string> = {
+  foundationalRule: 'State the topic-neutral core rule in one or two sentences.',
+  whyItWorks: 'Explain the mechanism behind the rule as the official documentation describes it.',
+  analogy: 'Draw it from {{analogyStyle}} and make each part of the analogy map onto the technical concept.',
+  analogousFoundationalConcept: 'Name another foundational concept that follows the same principle and say how.',
+  commonConfusion: 'Describe the most tempting wrong belief and why it is wrong.',
+  examEliminationCue: 'Give a wording pattern in answer options that signals which ones to eliminate.',
+  memoryHook: 'Write one short, memorable line.'
+};
+
+/**
+ * Asks for a new version of a single block field, with the source question
+ * and the rest of the block as context. Previous versions are listed so the
+ * model writes something different; a repeat is re-asked.
+ */
+export const regenerateInsightField = async (
+  question: ExamQuestion,
+  block: InsightBlock,
+  field: InsightField,
+  previousVersions: string[],
+  { signal, operationId = createOperationId('insights') }: ModelCallOptions = {}
+): Promise<{ text: string; usage: TokenUsage }> => {
+  const profile = getActiveProfile();
+  const prompt = getPromptTemplate('field-regeneration');
+  const { variants, citations, ...content } = block;
+  const profileVars = getProfileTemplateVars(profile);
+  const promptText = renderTemplate(prompt.template, {
+    ...profileVars,
+    fieldName: field,
+    fieldGuidance: renderTemplate(FIELD_REGENERATION_GUIDANCE[field], { ...profileVars, analogyStyle: getAnalogyStyle() }),
+    question: JSON.stringify(question),
+    block: JSON.stringify(content),
+    previousVersions: previousVersions.map(v => `- ${v}`).join('\n')
+  });
+
+  const { data, usage } = await generateValidated({
+    task: 'insights',
+    parts: [{ text: promptText }],
+    signal,
+    responseSchema: {
+      type: Type.OBJECT,
+      properties: { value: { type: Type.STRING } },
+      required: ["value"]
+    }
+  }, value => validateFieldVariant(value, previousVersions), operationId);
+
+  return { text: data, usage };
+};
@@ -0,0 +1,126 @@
+import { ExamProfile, GroundingSource, InsightBlock, InsightField } from "./types";
+import { GroundingSupportRef } from "./llmProvider";
+
+export const INSIGHT_FIELDS: InsightField[] = [
+  'foundationalRule',
+  'whyItWorks',
+  'analogy',
+  'analogousFoundationalConcept',
+  'commonConfusion',
+  'examEliminationCue',
+  'memoryHook'
+];
+
+// Shorter spans or field values (e.g. a lone key or number) match too much to be meaningful.
+const MIN_SUPPORT_LENGTH = 12;
+
+const HOSTNAME_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/i;
+
+/**
+ * Gemini returns redirect URIs (vertexaisearch.cloud.google.com) and puts the
+ * real site in the title, so the URI host is only trusted as a last resort.
+ */
+export const getSourceDomain = (source: GroundingSource): string => {
+  if (source.domain) return source.domain.toLowerCase();
+  if (HOSTNAME_PATTERN.test(source.title.trim())) return source.title.trim().toLowerCase();
+  try {
+    return new URL(source.uri).hostname.toLowerCase();
+  } catch {
+    return '';
+  }
+};
+
+const matchesDomain = (host: string, pattern: string) => {
+  const domain = pattern.trim().toLowerCase().replace(/^\*\./, '');
+  return !!domain && (host === domain || host.endsWith(`.${domain}`));
+};
+
+const matchesAny = (host: string, patterns: string[] = []) => patterns.some(p => matchesDomain(host, p));
+
+export const classifySource = (source: GroundingSource, profile: ExamProfile): GroundingSource => {
+  const domain = getSourceDomain(source);
+  return { ...source, domain, trust: matchesAny(domain, profile.groundingDomains) ? 'official' : 'other' };
+};
+
+/**
+ * Tags every source with a trust level and drops the ones the profile rejects.
+ * Official grounding domains always pass the allow list but can still be denied.
+ */
+export const filterSources = (sources: GroundingSource[], profile: ExamProfile): GroundingSource[] =>
+  sources
+    .map(source => classifySource(source, profile))
+    .filter(source => {
+      const domain = source.domain || '';
+      if (matchesAny(domain, profile.deniedSourceDomains)) return false;
+      if (!profile.allowedSourceDomains?.length) return true;
+      return source.trust === 'official' || matchesAny(domain, profile.allowedSourceDomains);
+    });
+
+// Compares text independent of JSON escaping, punctuation and case.
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/\\[nrt"]/g, ' ').replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Maps grounding supports onto the block fields whose text they cover. Support
+ * spans are located by text because their offsets refer to the raw JSON output.
+ * Citations to sources that were filtered out are discarded.
+ */
+export const attachCitations = (
+  blocks: InsightBlock[],
+  supports: GroundingSupportRef[],
+  sources: GroundingSource[]
+): InsightBlock[] => {
+  const keptUris = new Set(sources.map(s => s.uri));
+  const spans = supports
+    .map(support => ({ text: normalize(support.text), uris: support.sourceUris.filter(uri => keptUris.has(uri)) }))
+    .filter(span => span.text.length >= MIN_SUPPORT_LENGTH && span.uris.length > 0);
+
+  return blocks.map(block => {
+    const citations: InsightBlock['citations'] = {};
+    INSIGHT_FIELDS.forEach(field => {
+      const value = normalize(block[field] || '');
+      if (value.length < MIN_SUPPORT_LENGTH) return;
+      const uris = new Set<string>();
+      spans
+        .filter(span => span.text.includes(value) || value.includes(span.text))
+        .forEach(span => span.uris.forEach(uri => uris.add(uri)));
+      if (uris.size > 0) citations[field] = Array.from(uris);
+    });
+    return { ...block, citations };
+  });
+};
+
+const PASSAGE_TAG_PATTERN = /\s*\[(P\d+)\]/g;
+
+/**
+ * Strips the inline [P1]-style tags the model adds when grounding on local
+ * corpus passages and records them as citations on the tagged fields.
+ * Tags that don't match a supplied passage are dropped silently.
+ */
+export const attachPassageCitations = (
+  blocks: InsightBlock[],
+  passageUris: Record<string, string>
+): InsightBlock[] =>
+  blocks.map(block => {
+    const result: InsightBlock = { ...block, citations: { ...block.citations } };
+    INSIGHT_FIELDS.forEach(field => {
+      const uris = new Set(result.citations?.[field] || []);
+      result[field] = (block[field] || '').replace(PASSAGE_TAG_PATTERN, (_, tag: string) => {
+        if (passageUris[tag]) uris.add(passageUris[tag]);
+        return '';
+      }).trim();
+      if (uris.size > 0) result.citations![field] = Array.from(uris);
+    });
+    return result;
+  });
+
+export const hasOfficialCitation = (block: InsightBlock, sources: GroundingSource[] = []): boolean => {
+  const officialUris = new Set(sources.filter(s => s.trust === 'official').map(s => s.uri));
+  return Object.values(block.citations || {}).some(uris => uris?.some(uri => officialUris.has(uri)));
+};
+
+/** The sources a block actually cites, in list order; used so cached blocks don't carry their batch's other sources. */
+export const getCitedSources = (block: InsightBlock, sources: GroundingSource[] = []): GroundingSource[] => {
+  const citedUris = new Set(Object.values(block.citations || {}).flat());
+  return sources.filter(s => citedUris.has(s.uri));
+};
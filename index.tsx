@@ -3,6 +3,8 @@ import ReactDOM from 'react-dom/client';
 import { GoogleGenAI, Type } from "@google/genai";
 import { initializeApp, getApp, getApps } from "firebase/app";
 import { getFirestore, collection, doc, getDoc, setDoc, getDocs, query, orderBy } from "firebase/firestore";
+import { AZ104_PROFILE, getProfileTemplateVars } from "./examProfiles";
+import { getAnalogyStyle, getPromptTemplate, renderTemplate } from "./promptRegistry";
 
 // --- TYPES ---
 interface AZ104Question {
@@ -104,13 +106,15 @@ const fetchVault = async (): Promise<VaultItem[]> => {
 };
 
 // --- GEMINI SERVICE ---
-const EXTRACTION_PROMPT = `You are the "AZ-104 Concept Validation Engine." Convert questions into reusable logic patterns rooted in official MS Learn documentation. Output JSON.`;
+// Prompts come from the shared prompt registry so edits in the Integration Center apply here too
+const renderRegistryPrompt = (id: 'insight-extraction' | 'answer-cleaner', extraVars: Record<string, string> = {}) =>
+  renderTemplate(getPromptTemplate(id).template, { ...getProfileTemplateVars(AZ104_PROFILE), analogyStyle: getAnalogyStyle(), ...extraVars });
 
 const processInsights = async (questions: AZ104Question[]): Promise<ExtractionResult> => {
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
   const response = await ai.models.generateContent({
     model: 'gemini-3-pro-preview',
-    contents: { parts: [{ text: EXTRACTION_PROMPT }, { text: `PROCESS:\n${JSON.stringify(questions)}` }] },
+    contents: { parts: [{ text: renderRegistryPrompt('insight-extraction', { questionBatch: JSON.stringify(questions) }) }] },
     config: {
       tools: [{ googleSearch: {} }],
       responseMimeType: "application/json",
@@ -148,7 +152,7 @@ const processInsights = async (questions: AZ104Question[]): Promise<ExtractionRe
 
 const cleanAndExtractAnswers = async (rawText: string, pdfBase64?: string): Promise<ExtractedQuestion[]> => {
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-  const parts: any[] = [{ text: "Extract ONLY questions answered correctly as JSON. Format: {id, text, correctAnswer, explanation}." }];
+  const parts: any[] = [{ text: renderRegistryPrompt('answer-cleaner') }];
   if (pdfBase64) parts.push({ inlineData: { mimeType: 'application/pdf', data: pdfBase64 } });
   else parts.push({ text: rawText });
 
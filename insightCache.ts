@@ -0,0 +1,92 @@
+import { GroundingSource, InsightBlock } from "./types";
+
+const DB_NAME = 'analogical_insight_cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'insight_blocks';
+
+export interface CachedInsight {
+  key: string;
+  hash: string;
+  version: string;
+  domain: string;
+  block: InsightBlock;
+  sources: GroundingSource[];
+  cachedAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      store.createIndex('hash', 'hash');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const runRequest = <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  openDb().then(db => new Promise<T>((resolve, reject) => {
+    const request = fn(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+
+// Results are only reused when the question, prompt version and model all match.
+const buildKey = (hash: string, version: string) => `${hash}|${version}`;
+
+export const getCachedInsight = async (hash: string, version: string): Promise<CachedInsight | null> => {
+  try {
+    const entry = await runRequest<CachedInsight | undefined>('readonly', store => store.get(buildKey(hash, version)));
+    return entry || null;
+  } catch (e) {
+    return null;
+  }
+};
+
+/** The most recently cached block for a question hash under any prompt or model version. */
+export const getLatestCachedInsight = async (hash: string): Promise<CachedInsight | null> => {
+  try {
+    const entries = await runRequest<CachedInsight[]>('readonly', store => store.index('hash').getAll(hash));
+    return entries.sort((a, b) => b.cachedAt.localeCompare(a.cachedAt))[0] || null;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const putCachedInsight = async (
+  hash: string,
+  version: string,
+  domain: string,
+  block: InsightBlock,
+  sources: GroundingSource[] = []
+) => {
+  try {
+    await runRequest('readwrite', store => store.put({
+      key: buildKey(hash, version),
+      hash,
+      version,
+      domain,
+      block,
+      sources,
+      cachedAt: new Date().toISOString()
+    } as CachedInsight));
+  } catch (e) {
+    console.warn("Insight cache write failed.", e);
+  }
+};
+
+export const clearInsightCache = async () => {
+  try {
+    await runRequest('readwrite', store => store.clear());
+  } catch (e) {}
+};
@@ -0,0 +1,320 @@
+import { ExamQuestion, ExtractionResult, GroundingSource, InsightBlock, InsightField } from "./types";
+import { INSIGHT_FIELDS } from "./groundingCitations";
+import { summarizeAnswer } from "./questionFormat";
+import { createZip } from "./zipWriter";
+import { VaultItem, VaultMistakeItem } from "./firebase";
+import { getLatestCachedInsight } from "./insightCache";
+
+export type ExportFormat = 'markdown' | 'json' | 'obsidian' | 'html' | 'pdf';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, { label: string; icon: string }> = {
+  markdown: { label: 'Markdown', icon: 'fa-brands fa-markdown' },
+  json: { label: 'JSON', icon: 'fa-solid fa-code' },
+  obsidian: { label: 'Obsidian Notes (.zip)', icon: 'fa-solid fa-gem' },
+  html: { label: 'Printable HTML', icon: 'fa-solid fa-file-code' },
+  pdf: { label: 'Print / Save as PDF', icon: 'fa-solid fa-file-pdf' }
+};
+
+// Same headings as the on-screen blocks in OutputSection
+export const INSIGHT_FIELD_LABELS: Record<InsightField, string> = {
+  foundationalRule: 'Foundational Rule',
+  whyItWorks: 'Why It Works (Documentation-Backed)',
+  analogy: 'Analogy (Non-Technical)',
+  analogousFoundationalConcept: 'Analogous Foundational Concept',
+  commonConfusion: "Common Confusion & Why It's Wrong",
+  examEliminationCue: 'Exam Elimination Cue',
+  memoryHook: 'One-Line Memory Hook'
+};
+
+// Bumped whenever the JSON export shape changes so importers can tell versions apart
+const JSON_EXPORT_VERSION = 1;
+
+interface ExportEntry {
+  index: number;
+  block: InsightBlock;
+  question?: ExamQuestion;
+}
+
+const getEntries = (result: ExtractionResult): ExportEntry[] =>
+  result.blocks.map((block, i) => ({
+    index: i + 1,
+    block,
+    question: result.questions?.find(q => q.id === block.sourceQuestionId)
+  }));
+
+// 1-based positions in the sources list, matching the on-screen [n] markers
+const citationNumbers = (uris: string[] | undefined, sources: GroundingSource[]) =>
+  (uris || []).map(uri => sources.findIndex(s => s.uri === uri) + 1).filter(n => n > 0).sort((a, b) => a - b);
+
+const markdownCitations = (uris: string[] | undefined, sources: GroundingSource[]) =>
+  citationNumbers(uris, sources).map(n => `[${n}]`).join('');
+
+const escapeTableCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+const blockToMarkdown = ({ index, block, question }: ExportEntry, sources: GroundingSource[], headingLevel: number): string => {
+  const h = '#'.repeat(headingLevel);
+  const lines: string[] = [];
+  if (question) {
+    lines.push(`**Source question:** ${question.text}`, '', `**Correct answer:** ${summarizeAnswer(question)}`, '');
+  }
+  if (block.mistake) {
+    lines.push(
+      `${h}# Why My Answer Was Wrong`,
+      `- **I chose:** ~~${block.mistake.chosenAnswer}~~`,
+      `- **Misconception:** ${block.mistake.misconception}`,
+      `- **The rule that disproves it:** ${block.mistake.disprovingRule}`,
+      ''
+    );
+  }
+  INSIGHT_FIELDS.filter(field => field !== 'foundationalRule' && block[field]).forEach(field => {
+    lines.push(`${h}# ${INSIGHT_FIELD_LABELS[field]}`, `${block[field]}${markdownCitations(block.citations?.[field], sources)}`, '');
+  });
+  if (block.optionBreakdown?.length) {
+    lines.push(`${h}# Option Elimination`, '| | Option | Reason |', '|---|---|---|');
+    block.optionBreakdown.forEach(v => {
+      lines.push(`| ${v.isCorrect ? '✅' : '❌'} | ${escapeTableCell(v.option)} | ${escapeTableCell(v.reason)} |`);
+    });
+    lines.push('');
+  }
+
+  const title = `${h} ${index}. ${block.foundationalRule}${markdownCitations(block.citations?.foundationalRule, sources)}`;
+  return [title, '', ...lines].join('\n').trim();
+};
+
+const sourcesToMarkdown = (sources: GroundingSource[]) =>
+  sources.map((s, i) => `${i + 1}. [${s.title}](${s.uri})${s.trust === 'official' ? ' — official' : ''}`).join('\n');
+
+const exportMeta = (result: ExtractionResult) =>
+  [result.examCode, result.promptVersion && `Prompt ${result.promptVersion}`, `Exported ${new Date().toLocaleDateString()}`]
+    .filter(Boolean)
+    .join(' • ');
+
+export const resultToMarkdown = (result: ExtractionResult): string => {
+  const sources = result.sources || [];
+  const parts = [
+    `# ${result.domain}`,
+    `> ${exportMeta(result)}`,
+    ...getEntries(result).map(entry => blockToMarkdown(entry, sources, 2))
+  ];
+  if (sources.length) parts.push(`## Sources\n\n${sourcesToMarkdown(sources)}`);
+  return parts.join('\n\n') + '\n';
+};
+
+export const resultToJson = (result: ExtractionResult): string => JSON.stringify({
+  version: JSON_EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  examCode: result.examCode,
+  domain: result.domain,
+  promptVersion: result.promptVersion,
+  blocks: getEntries(result).map(({ block, question }) => ({ ...block, question })),
+  sources: result.sources || [],
+  usage: result.usage
+}, null, 2);
+
+// Characters Obsidian or common file systems reject in note names
+export const toNoteName = (text: string, maxLength = 80) =>
+  text.replace(/[\\/:*?"<>|#^[\]]/g, '').replace(/\s+/g, ' ').trim().slice(0, maxLength).trim() || 'Untitled';
+
+const yamlString = (value: string) => JSON.stringify(value);
+
+/**
+ * One note per block plus an index note for the batch. Notes carry YAML
+ * front-matter (exam, domain, tags, sources) and link back to the index, so
+ * the set shows up as a connected cluster in Obsidian's graph view.
+ */
+export const resultToObsidianNotes = (result: ExtractionResult): { path: string; content: string }[] => {
+  const sources = result.sources || [];
+  const folder = toNoteName(`${result.examCode ? `${result.examCode} - ` : ''}${result.domain}`);
+  const indexName = `${folder} - Index`;
+  const examTag = (result.examCode || 'exam').toLowerCase().replace(/[^a-z0-9-]/g, '');
+  const created = new Date().toISOString().slice(0, 10);
+
+  const notes = getEntries(result).map(entry => {
+    const name = toNoteName(`${String(entry.index).padStart(2, '0')} ${entry.block.foundationalRule}`);
+    const cited = citationNumbers(INSIGHT_FIELDS.flatMap(f => entry.block.citations?.[f] || []), sources)
+      .filter((n, i, all) => all.indexOf(n) === i)
+      .map(n => sources[n - 1]);
+    const frontMatter = [
+      '---',
+      `exam: ${yamlString(result.examCode || '')}`,
+      `domain: ${yamlString(result.domain)}`,
+      `tags: [${[examTag, 'insight', ...(entry.block.mistake ? ['mistake'] : [])].join(', ')}]`,
+      `created: ${created}`,
+      ...(cited.length ? ['sources:', ...cited.map(s => `  - ${yamlString(s.uri)}`)] : []),
+      '---'
+    ];
+    const body = blockToMarkdown(entry, sources, 1);
+    const footer = [`Part of [[${indexName}]]`];
+    if (sources.length) footer.push('', '## Sources', sourcesToMarkdown(sources));
+    return { name, content: [...frontMatter, '', body, '', ...footer].join('\n') + '\n' };
+  });
+
+  const index = [
+    '---',
+    `exam: ${yamlString(result.examCode || '')}`,
+    `domain: ${yamlString(result.domain)}`,
+    `tags: [${examTag}, insight-index]`,
+    `created: ${created}`,
+    '---',
+    '',
+    `# ${result.domain}`,
+    '',
+    ...notes.map(note => `- [[${note.name}]]`)
+  ].join('\n') + '\n';
+
+  return [
+    { path: `${folder}/${indexName}.md`, content: index },
+    ...notes.map(note => ({ path: `${folder}/${note.name}.md`, content: note.content }))
+  ];
+};
+
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const htmlCitations = (uris: string[] | undefined, sources: GroundingSource[]) => {
+  const numbers = citationNumbers(uris, sources);
+  return numbers.length ? `<sup>${numbers.map(n => `[${n}]`).join('')}</sup>` : '';
+};
+
+const PRINT_STYLES = `
+  body { font: 11pt/1.5 Georgia, "Times New Roman", serif; color: #111; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 20pt; margin-bottom: 0.2rem; }
+  .meta { color: #666; font-size: 9pt; margin-bottom: 2rem; }
+  .block { border-left: 3pt solid #2563eb; padding-left: 1rem; margin-bottom: 2rem; break-inside: avoid; }
+  .block h2 { font-size: 14pt; margin: 0 0 0.5rem; }
+  h3 { font: bold 8pt/1.2 Arial, sans-serif; text-transform: uppercase; letter-spacing: 0.08em; color: #2563eb; margin: 1rem 0 0.2rem; }
+  .question { color: #555; font-size: 9.5pt; }
+  .mistake { background: #fef2f2; border: 1px solid #fecaca; padding: 0.5rem 0.75rem; }
+  .hook { font-size: 13pt; font-weight: bold; font-style: italic; }
+  table { border-collapse: collapse; width: 100%; font-size: 9.5pt; }
+  td { border-top: 1px solid #ddd; padding: 0.3rem; vertical-align: top; }
+  sup { color: #666; font-size: 7pt; }
+  .sources { font-size: 9pt; break-before: auto; }
+  @page { margin: 1.5cm; }
+  @media print { body { margin: 0; max-width: none; } a { color: inherit; text-decoration: none; } }
+`;
+
+/** A standalone, print-styled HTML document; printing it from the browser produces the PDF export. */
+export const resultToPrintHtml = (result: ExtractionResult): string => {
+  const sources = result.sources || [];
+  const blocks = getEntries(result).map(({ index, block, question }) => {
+    const parts = [`<h2>${index}. ${escapeHtml(block.foundationalRule)}${htmlCitations(block.citations?.foundationalRule, sources)}</h2>`];
+    if (question) {
+      parts.push(`<p class="question"><strong>Question:</strong> ${escapeHtml(question.text)}<br><strong>Answer:</strong> ${escapeHtml(summarizeAnswer(question))}</p>`);
+    }
+    if (block.mistake) {
+      parts.push(`<div class="mistake"><h3>Why My Answer Was Wrong</h3><p>I chose: <s>${escapeHtml(block.mistake.chosenAnswer)}</s></p><p>${escapeHtml(block.mistake.misconception)}</p><p><strong>${escapeHtml(block.mistake.disprovingRule)}</strong></p></div>`);
+    }
+    INSIGHT_FIELDS.filter(field => field !== 'foundationalRule' && block[field]).forEach(field => {
+      const className = field === 'memoryHook' ? ' class="hook"' : '';
+      parts.push(`<h3>${escapeHtml(INSIGHT_FIELD_LABELS[field])}</h3><p${className}>${escapeHtml(block[field])}${htmlCitations(block.citations?.[field], sources)}</p>`);
+    });
+    if (block.optionBreakdown?.length) {
+      const rows = block.optionBreakdown.map(v => `<tr><td>${v.isCorrect ? '✔' : '✘'}</td><td>${escapeHtml(v.option)}</td><td>${escapeHtml(v.reason)}</td></tr>`).join('');
+      parts.push(`<h3>Option Elimination</h3><table>${rows}</table>`);
+    }
+    return `<section class="block">${parts.join('\n')}</section>`;
+  });
+
+  const sourceList = sources.length
+    ? `<section class="sources"><h3>Sources</h3><ol>${sources.map(s => `<li><a href="${escapeHtml(s.uri)}">${escapeHtml(s.title)}</a>${s.trust === 'official' ? ' (official)' : ''}</li>`).join('')}</ol></section>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(result.domain)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(result.domain)}</h1>
+<p class="meta">${escapeHtml(exportMeta(result))}</p>
+${blocks.join('\n')}
+${sourceList}
+</body>
+</html>
+`;
+};
+
+export const downloadFile = (fileName: string, content: string | Uint8Array, mimeType: string) => {
+  const blob = new Blob([typeof content === 'string' ? content : new Uint8Array(content)], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const printHtml = (html: string) => {
+  const win = window.open('', '_blank');
+  if (!win) throw new Error('Allow pop-ups for this site to print or save as PDF.');
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  // Give the new document a moment to lay out before opening the print dialog
+  setTimeout(() => win.print(), 250);
+};
+
+export const exportResult = (result: ExtractionResult, format: ExportFormat) => {
+  const base = toNoteName(`${result.examCode ? `${result.examCode} ` : ''}${result.domain}`, 60);
+  switch (format) {
+    case 'markdown':
+      return downloadFile(`${base}.md`, resultToMarkdown(result), 'text/markdown');
+    case 'json':
+      return downloadFile(`${base}.json`, resultToJson(result), 'application/json');
+    case 'obsidian':
+      return downloadFile(`${base} (Obsidian).zip`, createZip(resultToObsidianNotes(result).map(n => ({ path: n.path, data: n.content }))), 'application/zip');
+    case 'html':
+      return downloadFile(`${base}.html`, resultToPrintHtml(result), 'text/html');
+    case 'pdf':
+      return printHtml(resultToPrintHtml(result));
+  }
+};
+
+/**
+ * Rebuilds an exportable result from vault selections. The vault only keeps
+ * the rule (or mistake analysis), so full blocks and sources are taken from
+ * the local insight cache by question hash when this browser has them.
+ */
+export const buildVaultExport = async (
+  examCode: string,
+  principles: VaultItem[],
+  mistakes: VaultMistakeItem[]
+): Promise<ExtractionResult> => {
+  const empty = { whyItWorks: '', analogy: '', analogousFoundationalConcept: '', commonConfusion: '', examEliminationCue: '', memoryHook: '' };
+  const sources: GroundingSource[] = [];
+  const domains = new Set<string>();
+  const blockDomains: Record<string, string> = {};
+
+  const toBlock = async (hash: string, domain: string, fallback: Omit<InsightBlock, 'sourceQuestionId'>): Promise<InsightBlock> => {
+    domains.add(domain);
+    blockDomains[hash] = domain;
+    const cached = await getLatestCachedInsight(hash);
+    cached?.sources.forEach(s => {
+      if (!sources.some(existing => existing.uri === s.uri)) sources.push(s);
+    });
+    return { ...fallback, ...cached?.block, sourceQuestionId: hash };
+  };
+
+  const blocks = [
+    ...await Promise.all(principles.map(item =>
+      toBlock(item.hash, item.domain, { ...empty, foundationalRule: item.foundationalRule }))),
+    ...await Promise.all(mistakes.map(item =>
+      toBlock(item.hash, item.domain, {
+        ...empty,
+        foundationalRule: item.disprovingRule,
+        examEliminationCue: item.examEliminationCue,
+        mistake: { chosenAnswer: item.chosenAnswer, misconception: item.misconception, disprovingRule: item.disprovingRule }
+      })))
+  ];
+
+  return {
+    domain: Array.from(domains).join(' / ') || 'Vault Export',
+    blocks,
+    sources,
+    examCode,
+    blockDomains
+  };
+};
@@ -0,0 +1,76 @@
+import { ExtractionResult, GroundingSource, InsightBlock, InsightField, InsightVariant, TokenUsage } from "./types";
+import { INSIGHT_FIELDS } from "./groundingCitations";
+import { addTokenUsage } from "./usageLedger";
+
+/** All versions of a field; a block that was never edited has just its generated text. */
+export const getFieldVariants = (block: InsightBlock, field: InsightField): InsightVariant[] =>
+  block.variants?.[field] || [{ text: block[field], citations: block.citations?.[field], source: 'generated' }];
+
+export const getSelectedVariantIndex = (block: InsightBlock, field: InsightField): number =>
+  getFieldVariants(block, field).findIndex(v => v.text === block[field]);
+
+/** Makes a variant the field's current value, restoring the citations that belonged to it. */
+export const selectFieldVariant = (block: InsightBlock, field: InsightField, index: number): InsightBlock => {
+  const variants = getFieldVariants(block, field);
+  const variant = variants[index];
+  if (!variant) return block;
+
+  const citations = { ...block.citations };
+  if (variant.citations?.length) citations[field] = variant.citations;
+  else delete citations[field];
+
+  return {
+    ...block,
+    [field]: variant.text,
+    citations,
+    variants: { ...block.variants, [field]: variants }
+  };
+};
+
+/** Adds a version of a field (or re-selects an identical one) and makes it current. */
+export const addFieldVariant = (block: InsightBlock, field: InsightField, variant: InsightVariant): InsightBlock => {
+  const text = variant.text.trim();
+  const variants = getFieldVariants(block, field);
+  const existing = variants.findIndex(v => v.text === text);
+  if (existing !== -1) return selectFieldVariant(block, field, existing);
+
+  const next = { ...block, variants: { ...block.variants, [field]: [...variants, { ...variant, text }] } };
+  return selectFieldVariant(next, field, variants.length);
+};
+
+const pickFields = (block: InsightBlock) =>
+  Object.fromEntries(INSIGHT_FIELDS.map(field => [field, block[field]])) as Pick<InsightBlock, InsightField>;
+
+/**
+ * Swaps in a regenerated block. Every field keeps its earlier versions, so
+ * a regeneration that made one part worse can be undone field by field.
+ */
+export const replaceBlockKeepingVariants = (previous: InsightBlock, regenerated: InsightBlock): InsightBlock =>
+  INSIGHT_FIELDS.reduce<InsightBlock>(
+    (block, field) => addFieldVariant(block, field, {
+      text: regenerated[field],
+      citations: regenerated.citations?.[field],
+      source: 'regenerated'
+    }),
+    { ...regenerated, citations: previous.citations, variants: previous.variants, ...pickFields(previous) }
+  );
+
+/** Replaces one block of a result, adding any new sources and the usage of the call that produced it. */
+export const updateResultBlock = (
+  result: ExtractionResult,
+  index: number,
+  block: InsightBlock,
+  extra: { sources?: GroundingSource[]; usage?: TokenUsage } = {}
+): ExtractionResult => {
+  const sources = [...(result.sources || [])];
+  (extra.sources || []).forEach(source => {
+    if (!sources.some(s => s.uri === source.uri)) sources.push(source);
+  });
+
+  return {
+    ...result,
+    blocks: result.blocks.map((b, i) => (i === index ? block : b)),
+    sources,
+    usage: extra.usage && result.usage ? addTokenUsage(result.usage, extra.usage) : result.usage || extra.usage
+  };
+};
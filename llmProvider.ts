@@ -0,0 +1,397 @@
+import { GenerateContentResponse, GoogleGenAI, Part, Schema, Type } from "@google/genai";
+import { GroundingSource } from "./types";
+import { ModelCallError, parseRetryAfterHeader } from "./modelCall";
+import { parseModelJson } from "./schemaValidation";
+import { MOCK_EXTRACTED_QUESTIONS, MOCK_DOMAIN, MOCK_FIELD_VARIANTS, MOCK_INSIGHT_BLOCKS, MOCK_MISTAKE_ANALYSES, MOCK_SOURCES } from "./mockFixtures";
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export type LLMTask = 'clean' | 'insights';
+
+export interface LLMRequest {
+  task: LLMTask;
+  parts: Part[];
+  responseSchema: Schema;
+  useSearch?: boolean;
+  questionIds?: string[];
+  mistakeQuestionIds?: string[];
+  signal?: AbortSignal;
+}
+
+export interface LLMResponse {
+  text: string;
+  sources: GroundingSource[];
+  supports?: GroundingSupportRef[];
+  usage?: RawTokenUsage;
+}
+
+// A span of the response text and the source URIs the model cited for it.
+export interface GroundingSupportRef {
+  text: string;
+  sourceUris: string[];
+}
+
+export interface RawTokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  label: string;
+  generate: (request: LLMRequest) => Promise<LLMResponse>;
+  // Streams the response, calling onText with the accumulated text after every chunk.
+  generateStream?: (request: LLMRequest, onText: (text: string) => void) => Promise<LLMResponse>;
+}
+
+export const PROVIDER_STORAGE_KEYS = {
+  provider: 'llm_provider',
+  geminiApiKey: 'gemini_api_key',
+  openaiBaseUrl: 'openai_base_url',
+  openaiModel: 'openai_model',
+  openaiApiKey: 'openai_api_key',
+  streamInsights: 'stream_insights'
+};
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-Compatible (Local)',
+  mock: 'Offline Mock (Fixtures)'
+};
+
+const GEMINI_MODELS: Record<LLMTask, string> = {
+  clean: 'gemini-2.0-flash-exp',
+  insights: 'gemini-2.0-flash-thinking-exp-01-21'
+};
+
+const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_OPENAI_MODEL = 'llama3.1';
+
+export const getProviderId = (): ProviderId => {
+  const saved = localStorage.getItem(PROVIDER_STORAGE_KEYS.provider);
+  return saved === 'openai' || saved === 'mock' ? saved : 'gemini';
+};
+
+export const getGeminiApiKey = (): string => {
+  // First check localStorage (for browser runtime config)
+  const localKey = localStorage.getItem(PROVIDER_STORAGE_KEYS.geminiApiKey);
+  if (localKey) return localKey;
+
+  // Fallback to environment variable (for local dev)
+  return import.meta.env.VITE_API_KEY || '';
+};
+
+export const getOpenAIConfig = () => ({
+  baseUrl: localStorage.getItem(PROVIDER_STORAGE_KEYS.openaiBaseUrl) || DEFAULT_OPENAI_BASE_URL,
+  model: localStorage.getItem(PROVIDER_STORAGE_KEYS.openaiModel) || DEFAULT_OPENAI_MODEL,
+  apiKey: localStorage.getItem(PROVIDER_STORAGE_KEYS.openaiApiKey) || ''
+});
+
+// Identifies the concrete model behind a task, used to key cached results.
+export const getModelLabel = (task: LLMTask): string => {
+  switch (getProviderId()) {
+    case 'openai':
+      return `openai:${getOpenAIConfig().model}`;
+    case 'mock':
+      return 'mock';
+    default:
+      return GEMINI_MODELS[task];
+  }
+};
+
+export const isStreamingEnabled = (): boolean =>
+  localStorage.getItem(PROVIDER_STORAGE_KEYS.streamInsights) !== 'false';
+
+export const isProviderReady = (): boolean => {
+  switch (getProviderId()) {
+    case 'mock':
+      return true;
+    case 'openai':
+      return !!getOpenAIConfig().baseUrl;
+    default:
+      return !!getGeminiApiKey();
+  }
+};
+
+const getGeminiClient = (): GoogleGenAI => {
+  const apiKey = getGeminiApiKey();
+  if (!apiKey) {
+    throw new Error('No API key configured. Please add your Gemini API key in Settings.');
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+const buildGeminiParams = ({ task, parts, responseSchema, useSearch, signal }: LLMRequest) => ({
+  model: GEMINI_MODELS[task],
+  contents: { parts },
+  config: {
+    ...(useSearch ? { tools: [{ googleSearch: {} }] } : {}),
+    abortSignal: signal,
+    responseMimeType: "application/json",
+    responseSchema
+  }
+});
+
+const collectGroundingSources = (
+  response: GenerateContentResponse,
+  sources: GroundingSource[],
+  supports: GroundingSupportRef[]
+) => {
+  const metadata = response.candidates?.[0]?.groundingMetadata;
+  const groundingChunks = metadata?.groundingChunks;
+  if (groundingChunks) {
+    groundingChunks.forEach((chunk: any) => {
+      if (chunk.web && chunk.web.uri && chunk.web.title && !sources.some(s => s.uri === chunk.web.uri)) {
+        sources.push({ title: chunk.web.title, uri: chunk.web.uri, domain: chunk.web.domain });
+      }
+    });
+  }
+
+  // Support indices point into this response's groundingChunks, so resolve them to URIs here
+  metadata?.groundingSupports?.forEach(support => {
+    const sourceUris = (support.groundingChunkIndices || [])
+      .map(i => groundingChunks?.[i]?.web?.uri)
+      .filter((uri): uri is string => !!uri);
+    if (support.segment?.text && sourceUris.length > 0) {
+      supports.push({ text: support.segment.text, sourceUris });
+    }
+  });
+};
+
+const readGeminiUsage = (response: GenerateContentResponse): RawTokenUsage | undefined => {
+  const meta = response.usageMetadata;
+  if (!meta) return undefined;
+  return {
+    promptTokens: meta.promptTokenCount || 0,
+    outputTokens: meta.candidatesTokenCount || 0,
+    thinkingTokens: meta.thoughtsTokenCount || 0
+  };
+};
+
+const createGeminiProvider = (): LLMProvider => ({
+  id: 'gemini',
+  label: PROVIDER_LABELS.gemini,
+  generate: async (request) => {
+    const response = await getGeminiClient().models.generateContent(buildGeminiParams(request));
+
+    const sources: GroundingSource[] = [];
+    const supports: GroundingSupportRef[] = [];
+    collectGroundingSources(response, sources, supports);
+
+    return { text: response.text || '', sources, supports, usage: readGeminiUsage(response) };
+  },
+  generateStream: async (request, onText) => {
+    const stream = await getGeminiClient().models.generateContentStream(buildGeminiParams(request));
+
+    let text = '';
+    let usage: RawTokenUsage | undefined;
+    const sources: GroundingSource[] = [];
+    const supports: GroundingSupportRef[] = [];
+    for await (const chunk of stream) {
+      text += chunk.text || '';
+      collectGroundingSources(chunk, sources, supports);
+      // Usage metadata is cumulative; the last chunk carries the final totals
+      usage = readGeminiUsage(chunk) || usage;
+      onText(text);
+    }
+
+    return { text, sources, supports, usage };
+  }
+});
+
+// JSON mode only allows an object root, so array schemas are requested wrapped in { "items": [...] }
+const ARRAY_WRAPPER_KEY = 'items';
+
+const toChatSchema = (schema: Schema): Schema =>
+  schema.type === Type.ARRAY
+    ? { type: Type.OBJECT, properties: { [ARRAY_WRAPPER_KEY]: schema }, required: [ARRAY_WRAPPER_KEY] }
+    : schema;
+
+// Hands validation the array it asked for; anything unexpected is passed through for validation to report
+const unwrapChatText = (text: string, schema: Schema): string => {
+  if (schema.type !== Type.ARRAY) return text;
+  try {
+    const parsed = parseModelJson(text) as Record<string, unknown> | null;
+    return parsed && Array.isArray(parsed[ARRAY_WRAPPER_KEY]) ? JSON.stringify(parsed[ARRAY_WRAPPER_KEY]) : text;
+  } catch {
+    return text;
+  }
+};
+
+const postChatCompletion = async ({ parts, responseSchema, signal }: LLMRequest, stream: boolean): Promise<Response> => {
+  const { baseUrl, model, apiKey } = getOpenAIConfig();
+
+  // Vision-capable local models accept images as data URLs; PDFs have no equivalent
+  if (parts.some(p => p.inlineData && !p.inlineData.mimeType?.startsWith('image/'))) {
+    throw new Error('PDF uploads require the Gemini provider. Paste the text instead.');
+  }
+
+  const prompt = parts.map(p => p.text || '').filter(Boolean).join('\n\n');
+  const images = parts.filter(p => p.inlineData).map(p => ({
+    type: 'image_url',
+    image_url: { url: `data:${p.inlineData!.mimeType};base64,${p.inlineData!.data}` }
+  }));
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+  const schema = toChatSchema(responseSchema);
+
+  const res = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers,
+    signal,
+    body: JSON.stringify({
+      model,
+      stream,
+      ...(stream ? { stream_options: { include_usage: true } } : {}),
+      temperature: 0,
+      ...(schema.type === Type.OBJECT ? { response_format: { type: 'json_object' } } : {}),
+      messages: [
+        {
+          role: 'system',
+          content: `Respond with JSON only, matching this schema:\n${JSON.stringify(schema)}`
+        },
+        { role: 'user', content: images.length ? [{ type: 'text', text: prompt }, ...images] : prompt }
+      ]
+    })
+  });
+
+  if (!res.ok) {
+    throw new ModelCallError(
+      `Local model server returned ${res.status} ${res.statusText}.`,
+      res.status,
+      parseRetryAfterHeader(res.headers.get('retry-after'))
+    );
+  }
+
+  return res;
+};
+
+const readOpenAIUsage = (usage: any): RawTokenUsage | undefined =>
+  usage ? { promptTokens: usage.prompt_tokens || 0, outputTokens: usage.completion_tokens || 0, thinkingTokens: 0 } : undefined;
+
+const createOpenAIProvider = (): LLMProvider => ({
+  id: 'openai',
+  label: PROVIDER_LABELS.openai,
+  generate: async (request) => {
+    const res = await postChatCompletion(request, false);
+    const data = await res.json();
+    const text = unwrapChatText(data.choices?.[0]?.message?.content || '', request.responseSchema);
+    return { text, sources: [], usage: readOpenAIUsage(data.usage) };
+  },
+  generateStream: async (request, onText) => {
+    const res = await postChatCompletion(request, true);
+    if (!res.body) throw new Error('Local model server did not return a stream.');
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    let usage: RawTokenUsage | undefined;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        const payload = line.slice(5).trim();
+        if (!payload || payload === '[DONE]') continue;
+        try {
+          const event = JSON.parse(payload);
+          usage = readOpenAIUsage(event.usage) || usage;
+          text += event.choices?.[0]?.delta?.content || '';
+          onText(text);
+        } catch {
+          // Ignore keep-alive or malformed event lines
+        }
+      }
+    }
+
+    return { text: unwrapChatText(text, request.responseSchema), sources: [], usage };
+  }
+});
+
+const MOCK_STREAM_CHUNK_SIZE = 48;
+const MOCK_STREAM_DELAY_MS = 25;
+
+// Rough 4-characters-per-token estimate so the usage ledger has something to show offline
+const estimateMockUsage = (parts: Part[], text: string): RawTokenUsage => ({
+  promptTokens: Math.ceil(parts.reduce((sum, p) => sum + (p.text || '').length, 0) / 4),
+  outputTokens: Math.ceil(text.length / 4),
+  thinkingTokens: 0
+});
+
+// A variant the prompt doesn't already list as a previous version, numbered once the fixtures run out
+const pickMockFieldVariant = (parts: Part[]): string => {
+  const prompt = parts.map(part => part.text || '').join('\n');
+  const fresh = MOCK_FIELD_VARIANTS.find(variant => !prompt.includes(variant));
+  if (fresh) return fresh;
+  let take = MOCK_FIELD_VARIANTS.length + 1;
+  while (prompt.includes(`${MOCK_FIELD_VARIANTS[0]} (take ${take})`)) take++;
+  return `${MOCK_FIELD_VARIANTS[0]} (take ${take})`;
+};
+
+const buildMockResponse = ({ task, parts, responseSchema, questionIds = [], mistakeQuestionIds = [], signal }: LLMRequest): LLMResponse => {
+  if (signal?.aborted) throw new DOMException('Request cancelled.', 'AbortError');
+
+  if (task === 'clean') {
+    const text = JSON.stringify(MOCK_EXTRACTED_QUESTIONS);
+    return { text, sources: [], usage: estimateMockUsage(parts, text) };
+  }
+
+  // Field regeneration shares the insights task but asks for a single { value }
+  if (responseSchema.properties?.value) {
+    const text = JSON.stringify({ value: pickMockFieldVariant(parts) });
+    return { text, sources: [], usage: estimateMockUsage(parts, text) };
+  }
+
+  const blocks = questionIds.map((sourceQuestionId, i) => ({
+    ...MOCK_INSIGHT_BLOCKS[i % MOCK_INSIGHT_BLOCKS.length],
+    sourceQuestionId,
+    ...(mistakeQuestionIds.includes(sourceQuestionId)
+      ? { mistake: { chosenAnswer: '(as staged)', ...MOCK_MISTAKE_ANALYSES[i % MOCK_MISTAKE_ANALYSES.length] } }
+      : {})
+  }));
+  const text = JSON.stringify({ domain: MOCK_DOMAIN, blocks });
+  return {
+    text,
+    sources: MOCK_SOURCES,
+    // Rules cite the official page; the third-party page backs the analogy so filtering drops it
+    supports: blocks.flatMap(block => [
+      { text: block.foundationalRule, sourceUris: [MOCK_SOURCES[0].uri] },
+      { text: block.whyItWorks, sourceUris: [MOCK_SOURCES[0].uri] },
+      { text: block.analogy, sourceUris: [MOCK_SOURCES[1].uri] }
+    ]),
+    usage: estimateMockUsage(parts, text)
+  };
+};
+
+const createMockProvider = (): LLMProvider => ({
+  id: 'mock',
+  label: PROVIDER_LABELS.mock,
+  generate: async (request) => buildMockResponse(request),
+  generateStream: async (request, onText) => {
+    const response = buildMockResponse(request);
+    for (let end = MOCK_STREAM_CHUNK_SIZE; end < response.text.length + MOCK_STREAM_CHUNK_SIZE; end += MOCK_STREAM_CHUNK_SIZE) {
+      await new Promise(resolve => setTimeout(resolve, MOCK_STREAM_DELAY_MS));
+      if (request.signal?.aborted) throw new DOMException('Request cancelled.', 'AbortError');
+      onText(response.text.slice(0, end));
+    }
+    return response;
+  }
+});
+
+export const getProvider = (id: ProviderId = getProviderId()): LLMProvider => {
+  switch (id) {
+    case 'openai':
+      return createOpenAIProvider();
+    case 'mock':
+      return createMockProvider();
+    default:
+      return createGeminiProvider();
+  }
+};
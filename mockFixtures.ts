@@ -0,0 +1,128 @@
+import { ExtractedQuestion, GroundingSource, InsightBlock, MistakeAnalysis } from "./types";
+
+export const MOCK_DOMAIN = 'Manage Azure identities and governance';
+
+// One official and one third-party source so trust filtering can be exercised offline
+export const MOCK_SOURCES: GroundingSource[] = [
+  { title: 'learn.microsoft.com', uri: 'https://learn.microsoft.com/azure/', domain: 'learn.microsoft.com' },
+  { title: 'example-azure-blog.com', uri: 'https://example-azure-blog.com/az-104-notes', domain: 'example-azure-blog.com' }
+];
+
+// userAnswer is only kept when the cleaner runs in mistake-analysis mode
+export const MOCK_EXTRACTED_QUESTIONS: ExtractedQuestion[] = [
+  {
+    id: 'mock-q1',
+    type: 'single',
+    text: 'You need to prevent users from deleting a production resource group while still allowing them to modify resources inside it. What should you configure?',
+    options: [
+      'A ReadOnly resource lock on the resource group',
+      'A CanNotDelete resource lock on the resource group',
+      'An Azure Policy with a deny effect',
+      'The Contributor role for all users'
+    ],
+    correctAnswer: 'A CanNotDelete resource lock on the resource group',
+    userAnswer: 'A ReadOnly resource lock on the resource group',
+    explanation: 'CanNotDelete locks block delete operations on the scope and its children while permitting reads and updates.'
+  },
+  {
+    id: 'mock-q2',
+    type: 'multi-select',
+    text: 'A storage account must only accept traffic from a single virtual network subnet. Which two actions should you perform?',
+    options: [
+      'Enable a Microsoft.Storage service endpoint on the subnet',
+      'Create a network security group rule that allows the subnet',
+      'Add a virtual network rule for the subnet to the storage account firewall',
+      'Assign the Storage Account Contributor role to the subnet'
+    ],
+    correctAnswers: [
+      'Enable a Microsoft.Storage service endpoint on the subnet',
+      'Add a virtual network rule for the subnet to the storage account firewall'
+    ],
+    userAnswer: 'Create a network security group rule that allows the subnet',
+    explanation: 'Service endpoints extend the subnet identity to the storage account, which can then allow that subnet in its network rules.'
+  },
+  {
+    id: 'mock-q3',
+    type: 'single',
+    text: 'You assign the Reader role at the subscription scope. Which resources can the user view?',
+    options: [
+      'Only the subscription object itself',
+      'All resource groups and resources in the subscription',
+      'All subscriptions in the tenant',
+      'Only resources the user created'
+    ],
+    correctAnswer: 'All resource groups and resources in the subscription',
+    userAnswer: 'Only the subscription object itself',
+    explanation: 'Azure RBAC role assignments are inherited by every child scope beneath the scope they are assigned at.'
+  }
+];
+
+export const MOCK_INSIGHT_BLOCKS: Omit<InsightBlock, 'sourceQuestionId'>[] = [
+  {
+    foundationalRule: 'Locks act on the control plane, not the data plane.',
+    whyItWorks: 'Resource locks are evaluated by Azure Resource Manager, so they restrict management operations without touching the data the resource serves.',
+    analogy: 'A padlock on the filing cabinet frame stops anyone moving the cabinet, but you can still open the drawers.',
+    analogousFoundationalConcept: 'Separation of management plane and data plane.',
+    commonConfusion: 'Assuming a ReadOnly lock only blocks deletes; it also blocks writes such as listing storage keys.',
+    examEliminationCue: 'If the option mentions preventing deletion but allowing changes, look for CanNotDelete.',
+    memoryHook: 'Locks guard the cabinet, not the files.',
+    optionBreakdown: [
+      { option: 'A ReadOnly resource lock on the resource group', isCorrect: false, reason: 'ReadOnly blocks updates too, so users could no longer modify resources.' },
+      { option: 'A CanNotDelete resource lock on the resource group', isCorrect: true, reason: 'Blocks delete operations on the scope while still allowing reads and updates.' },
+      { option: 'An Azure Policy with a deny effect', isCorrect: false, reason: 'Policy evaluates resource properties on create/update; it does not protect against deletion.' },
+      { option: 'The Contributor role for all users', isCorrect: false, reason: 'Contributor includes delete permissions, which is exactly what must be prevented.' }
+    ]
+  },
+  {
+    foundationalRule: 'Network trust follows identity that is explicitly extended to the target.',
+    whyItWorks: 'A service endpoint tags traffic with the subnet identity so the PaaS firewall can recognise and allow it.',
+    analogy: 'A guest list only works if the venue can see the name badge you were given at the door.',
+    analogousFoundationalConcept: 'Allow-listing based on verified source identity.',
+    commonConfusion: 'Thinking an NSG rule alone lets a storage firewall recognise a subnet.',
+    examEliminationCue: 'Storage firewall plus a specific subnet means service endpoint or private endpoint.',
+    memoryHook: 'No badge, no entry.',
+    optionBreakdown: [
+      { option: 'Enable a Microsoft.Storage service endpoint on the subnet', isCorrect: true, reason: 'Gives traffic from the subnet an identity the storage firewall can recognise.' },
+      { option: 'Create a network security group rule that allows the subnet', isCorrect: false, reason: 'NSGs filter traffic inside the virtual network; the storage firewall never sees them.' },
+      { option: 'Add a virtual network rule for the subnet to the storage account firewall', isCorrect: true, reason: 'Allows the endpoint-enabled subnet while the firewall denies everything else.' },
+      { option: 'Assign the Storage Account Contributor role to the subnet', isCorrect: false, reason: 'RBAC grants permissions to identities, not network access to subnets.' }
+    ]
+  },
+  {
+    foundationalRule: 'Permissions flow downward through scopes.',
+    whyItWorks: 'RBAC assignments are inherited by all child scopes: management group, subscription, resource group, resource.',
+    analogy: 'A master key for the building opens every apartment inside it.',
+    analogousFoundationalConcept: 'Hierarchical inheritance of access control.',
+    commonConfusion: 'Believing a resource group assignment grants access to the parent subscription.',
+    examEliminationCue: 'Choose the narrowest scope that still covers every required resource.',
+    memoryHook: 'Keys open down, never up.',
+    optionBreakdown: [
+      { option: 'Only the subscription object itself', isCorrect: false, reason: 'Ignores inheritance; assignments flow to every child scope.' },
+      { option: 'All resource groups and resources in the subscription', isCorrect: true, reason: 'Reader at subscription scope is inherited by all resource groups and resources beneath it.' },
+      { option: 'All subscriptions in the tenant', isCorrect: false, reason: 'Inheritance only flows downward; sibling subscriptions are outside the scope.' },
+      { option: 'Only resources the user created', isCorrect: false, reason: 'RBAC is scope-based, not ownership-based.' }
+    ]
+  }
+];
+
+export const MOCK_MISTAKE_ANALYSES: Omit<MistakeAnalysis, 'chosenAnswer'>[] = [
+  {
+    misconception: 'ReadOnly sounds like the gentler lock, so it seems the safer way to stop deletion.',
+    disprovingRule: 'ReadOnly blocks every write on the control plane, so it also stops the modifications the scenario requires.'
+  },
+  {
+    misconception: 'Allowing a subnet in an NSG is enough for a PaaS service to trust it.',
+    disprovingRule: 'NSGs filter traffic leaving the subnet; only a service endpoint or private endpoint gives the storage firewall an identity to allow.'
+  },
+  {
+    misconception: 'A role assignment only applies to the exact scope it is created on.',
+    disprovingRule: 'RBAC assignments are inherited by every child scope, so subscription Reader can view all resource groups and resources.'
+  }
+];
+
+// Handed out by single-field regeneration; previous versions are listed in its prompt, so the first one not listed is used
+export const MOCK_FIELD_VARIANTS: string[] = [
+  'Like a building permit issued for a whole floor: every office on that floor is covered without asking again.',
+  'Picture a house key that also opens every room inside; access granted at the door carries through.',
+  'Think of a school rule set by the principal: every classroom follows it, but the school next door does not.'
+];
@@ -0,0 +1,116 @@
+export class ModelCallError extends Error {
+  status?: number;
+  retryAfterMs?: number;
+
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ModelCallError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export interface ModelCallOptions {
+  signal?: AbortSignal;
+  // Groups the usage ledger entries of several calls (e.g. batch chunks) into one extraction.
+  operationId?: string;
+}
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  timeoutMs: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof Error && err.name === 'AbortError';
+
+const abortError = (message: string) => new DOMException(message, 'AbortError');
+
+// Parses an HTTP Retry-After header (seconds or HTTP date) into milliseconds.
+export const parseRetryAfterHeader = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// The Gemini SDK reports the status in its message as "[status NNN]" or a JSON `"code": NNN`;
+// other numbers in the text (token counts, ids) are not statuses.
+const getStatus = (err: any): number | undefined => {
+  if (typeof err?.status === 'number') return err.status;
+  const message = err?.message || '';
+  const match = /\[status (\d{3})\]/i.exec(message) || /"code"\s*:\s*(\d{3})\b/.exec(message);
+  return match ? Number(match[1]) : undefined;
+};
+
+// Gemini reports RetryInfo as `"retryDelay": "12s"` inside the error message.
+const getRetryAfterMs = (err: any): number | undefined => {
+  if (typeof err?.retryAfterMs === 'number') return err.retryAfterMs;
+  const match = /retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/.exec(err?.message || '');
+  return match ? Number(match[1]) * 1000 : undefined;
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError('Request cancelled.'));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError('Request cancelled.'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs a model call with a per-attempt timeout, exponential backoff on 429/5xx
+ * (honouring retry-after hints) and cancellation through the caller's signal.
+ */
+export const callWithRetry = async <T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  { signal, timeoutMs, maxRetries = 3, baseDelayMs = 1000, maxDelayMs = 30000 }: RetryOptions
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw abortError('Request cancelled.');
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      return await fn(controller.signal);
+    } catch (err: any) {
+      if (signal?.aborted) throw abortError('Request cancelled.');
+
+      const status = timedOut ? 408 : getStatus(err);
+      const retryable = status !== undefined && RETRYABLE_STATUSES.includes(status);
+
+      if (!retryable || attempt >= maxRetries) {
+        if (timedOut) throw new ModelCallError(`Model call timed out after ${Math.round(timeoutMs / 1000)}s.`, 408);
+        if (status === 429) throw new ModelCallError('Rate limit reached. Please wait a moment and try again.', 429);
+        throw err;
+      }
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) + Math.random() * 250;
+      // A server-suggested delay is honoured up to the same cap, so a huge Retry-After can't stall the batch
+      const retryAfter = getRetryAfterMs(err);
+      await sleep(retryAfter === undefined ? backoff : Math.min(maxDelayMs, retryAfter), signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+};
@@ -0,0 +1,83 @@
+import { PDFDocument } from "pdf-lib";
+import { ExtractedQuestion, InputAttachment, PageRange } from "./types";
+import { summarizeAnswer } from "./questionFormat";
+
+// Small enough that a chunk's questions fit comfortably in one cleaner response
+export const PAGES_PER_CHUNK = 10;
+// Consecutive chunks share a page so questions split across a page break are whole in one of them
+const CHUNK_OVERLAP_PAGES = 1;
+// Shorter texts are too generic to treat one as a truncated copy of the other
+const MIN_PREFIX_LENGTH = 30;
+
+export interface PdfChunk {
+  range: PageRange;
+  data: string;
+}
+
+const loadPdf = (base64: string) => PDFDocument.load(base64, { ignoreEncryption: true });
+
+export const getPdfPageCount = async (base64: string): Promise<number> =>
+  (await loadPdf(base64)).getPageCount();
+
+/** Splits the given page range into overlapping chunks of PAGES_PER_CHUNK pages. */
+export const splitPdf = async (base64: string, { start, end }: PageRange): Promise<PdfChunk[]> => {
+  const source = await loadPdf(base64);
+  const last = Math.min(end, source.getPageCount());
+  const chunks: PdfChunk[] = [];
+
+  for (let first = start; first <= last; first += PAGES_PER_CHUNK - CHUNK_OVERLAP_PAGES) {
+    const range = { start: first, end: Math.min(first + PAGES_PER_CHUNK - 1, last) };
+    const doc = await PDFDocument.create();
+    const indices = Array.from({ length: range.end - range.start + 1 }, (_, i) => range.start - 1 + i);
+    (await doc.copyPages(source, indices)).forEach(page => doc.addPage(page));
+    chunks.push({ range, data: await doc.saveAsBase64() });
+    if (range.end === last) break;
+  }
+
+  return chunks;
+};
+
+/** PDFs that are short and unrestricted are sent whole; anything else is split into page chunks. */
+export const needsChunking = (attachment: InputAttachment): boolean => {
+  if (attachment.mimeType !== 'application/pdf' || !attachment.pageCount) return false;
+  const range = attachment.pageRange || { start: 1, end: attachment.pageCount };
+  return range.end - range.start + 1 > PAGES_PER_CHUNK || range.start > 1 || range.end < attachment.pageCount;
+};
+
+// Case-study and yes/no series questions often share a stem, so the scenario, statements, options and answer are part of the key
+const questionKey = (q: ExtractedQuestion) => [
+  q.type === 'case-study' ? q.scenario : '',
+  q.text,
+  ...(q.type === 'yes-no-series' ? q.statements.map(s => s.statement) : []),
+  ...(q.options || []),
+  summarizeAnswer(q)
+].join(' ').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Combines chunk results, dropping questions seen in an earlier chunk. A
+ * question cut off at a chunk boundary shows up as a prefix of its complete
+ * copy, so the longer version wins; that match is only tried against earlier
+ * chunks, since only their shared page can hold a truncated copy. Ids are
+ * reassigned to stay unique.
+ */
+export const mergeChunkQuestions = (existing: ExtractedQuestion[], incoming: ExtractedQuestion[]): ExtractedQuestion[] => {
+  const merged = [...existing];
+
+  incoming.forEach(question => {
+    const key = questionKey(question);
+    const index = merged.findIndex((other, i) => {
+      const otherKey = questionKey(other);
+      if (otherKey === key) return true;
+      if (i >= existing.length) return false;
+      const [shorter, longer] = otherKey.length < key.length ? [otherKey, key] : [key, otherKey];
+      return shorter.length >= MIN_PREFIX_LENGTH && longer.startsWith(shorter);
+    });
+    if (index < 0) {
+      merged.push(question);
+    } else if (key.length > questionKey(merged[index]).length) {
+      merged[index] = question;
+    }
+  });
+
+  return merged.map((q, i) => ({ ...q, id: `q-${i + 1}` }));
+};
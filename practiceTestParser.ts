@@ -0,0 +1,178 @@
+import { ExtractedQuestion, ExtractionMode } from "./types";
+import { parseStagedQuestion, splitStagedBlocks, summarizeAnswer } from "./questionFormat";
+
+export interface LocalParseResult {
+  // Label of the adapter that recognised the input, shown to the user
+  adapter: string;
+  questions: ExtractedQuestion[];
+}
+
+interface ParserAdapter {
+  label: string;
+  // Returns null unless every question in the text follows the adapter's layout
+  parse: (text: string) => ExtractedQuestion[] | null;
+}
+
+const QUESTION_START = /^(?:Question(?:\s*#?\s*\d+)?\s*[:.)-]|Question\s*#?\s*\d+|Q\s*\d+\s*[:.)]|\d+\s*[.)])\s*(.*)$/i;
+const OPTION_LINE = /^\(?([A-H])[.):]\s+(.+)$/;
+const ANSWER_LINE = /^(?:Correct\s+)?Answers?\s*:\s*(.+)$/i;
+const USER_ANSWER_LINE = /^(?:Your|My)\s+Answers?\s*:\s*(.+)$/i;
+const EXPLANATION_LINE = /^(?:Explanation|Reference|Explanation\/Reference|Rationale)\s*:\s*(.*)$/i;
+// Uppercase only, so answers such as "bad" or "a lock" are never read as option letters
+const LETTER_LIST = /^[A-H](?:\s*(?:,|and|&|\/)?\s*[A-H])*$/;
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Resolves an answer line against the lettered options. Accepts letters
+ * ("B", "B, D", "BD", "B 🗳️") or the option text itself; returns null when a
+ * letter doesn't exist so malformed blocks fall back to the model.
+ */
+export const resolveAnswers = (value: string, options: string[]): string[] | null => {
+  const cleaned = value.replace(/[^A-Za-z0-9,&/\s]/g, '').trim();
+  if (options.length > 0 && LETTER_LIST.test(cleaned)) {
+    const letters = cleaned.replace(/and/g, '').replace(/[^A-H]/g, '').split('');
+    const answers = letters.map(letter => options[letter.charCodeAt(0) - 65]);
+    return answers.every(Boolean) ? Array.from(new Set(answers)) : null;
+  }
+  const text = value.trim();
+  return text ? [options.find(o => normalize(o) === normalize(text)) || text] : null;
+};
+
+const splitLetteredBlocks = (text: string): string[][] => {
+  const blocks: string[][] = [];
+  let current: string[] | null = null;
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line) return;
+    const start = line.match(QUESTION_START);
+    if (start) {
+      current = start[1] ? [start[1]] : [];
+      blocks.push(current);
+    } else if (current) {
+      current.push(line);
+    }
+  });
+
+  return blocks;
+};
+
+const parseLetteredBlock = (lines: string[], index: number): ExtractedQuestion | null => {
+  const textParts: string[] = [];
+  const options: string[] = [];
+  const explanation: string[] = [];
+  let answerValue = '';
+  let userValue = '';
+  let section: 'text' | 'option' | 'explanation' | 'answer' = 'text';
+
+  for (const line of lines) {
+    const user = line.match(USER_ANSWER_LINE);
+    const answer = line.match(ANSWER_LINE);
+    const explain = line.match(EXPLANATION_LINE);
+    const option = line.match(OPTION_LINE);
+
+    if (user) {
+      userValue = user[1];
+      section = 'answer';
+    } else if (answer) {
+      answerValue = answer[1];
+      section = 'answer';
+    } else if (explain) {
+      if (explain[1]) explanation.push(explain[1]);
+      section = 'explanation';
+    } else if (option && section !== 'explanation' && option[1].charCodeAt(0) - 65 === options.length) {
+      options.push(option[2].trim());
+      section = 'option';
+    } else if (section === 'text') {
+      textParts.push(line);
+    } else if (section === 'option') {
+      options[options.length - 1] += ` ${line}`;
+    } else if (section === 'explanation') {
+      explanation.push(line);
+    }
+  }
+
+  const text = textParts.join(' ').trim();
+  const correct = answerValue ? resolveAnswers(answerValue, options) : null;
+  if (!text || options.length < 2 || !correct) return null;
+
+  const chosen = userValue ? resolveAnswers(userValue, options) : null;
+  const base = {
+    id: `q-${index + 1}`,
+    text,
+    options,
+    explanation: explanation.join(' '),
+    ...(chosen ? { userAnswer: chosen.join(' + ') } : {})
+  };
+
+  return correct.length > 1
+    ? { ...base, type: 'multi-select', correctAnswers: correct }
+    : { ...base, type: 'single', correctAnswer: correct[0] };
+};
+
+const HAS_ANSWER_FIELD = /^(?:Correct Answers?|Correct Order|Statements):/im;
+
+const PARSER_ADAPTERS: ParserAdapter[] = [
+  {
+    label: 'Lettered options',
+    parse: text => {
+      const blocks = splitLetteredBlocks(text);
+      if (blocks.length === 0) return null;
+      const questions = blocks.map(parseLetteredBlock);
+      return questions.every(Boolean) ? questions as ExtractedQuestion[] : null;
+    }
+  },
+  {
+    // Text copied back out of the staging area
+    label: 'Staging format',
+    parse: text => {
+      const { blocks, unparsed } = splitStagedBlocks(text);
+      if (blocks.length === 0 || unparsed || !blocks.every(b => HAS_ANSWER_FIELD.test(b))) return null;
+      return blocks.map((block, i) => {
+        const question = parseStagedQuestion(block, `q-${i + 1}`);
+        return { ...question, explanation: question.explanation || '' };
+      });
+    }
+  }
+];
+
+const answerKey = (q: ExtractedQuestion) =>
+  q.type === 'multi-select' ? [...q.correctAnswers].sort().join(' + ') : summarizeAnswer(q);
+
+const isAnsweredWrong = (q: ExtractedQuestion) =>
+  !!q.userAnswer && normalize(q.userAnswer.split(' + ').sort().join(' + ')) !== normalize(answerKey(q));
+
+/**
+ * Applies the scrape mode to locally parsed questions: mistakes mode needs the
+ * user's answer on every question and keeps only the wrong ones (null if any
+ * is missing), correct mode drops the questions answered wrongly and strips
+ * the user's answers from the rest.
+ */
+export const applyExtractionMode = (questions: ExtractedQuestion[], mode: ExtractionMode): ExtractedQuestion[] | null => {
+  if (mode === 'mistakes') {
+    return questions.every(q => q.userAnswer) ? questions.filter(isAnsweredWrong) : null;
+  }
+  return questions
+    .filter(q => !isAnsweredWrong(q))
+    .map(({ userAnswer, ...q }) => q as ExtractedQuestion);
+};
+
+/**
+ * Parses regularly formatted practice-test text without calling the model.
+ * Returns null whenever no adapter recognises the whole input, so the caller
+ * can fall back to the model cleaner.
+ */
+export const parsePracticeTest = (text: string, mode: ExtractionMode = 'correct'): LocalParseResult | null => {
+  if (!text.trim()) return null;
+
+  for (const adapter of PARSER_ADAPTERS) {
+    const questions = adapter.parse(text);
+    if (!questions) continue;
+
+    const filtered = applyExtractionMode(questions, mode);
+    return filtered ? { adapter: adapter.label, questions: filtered } : null;
+  }
+
+  return null;
+};
@@ -0,0 +1,188 @@
+export type PromptTemplateId = 'insight-extraction' | 'answer-cleaner' | 'mistake-cleaner' | 'mistake-analysis' | 'field-regeneration';
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  name: string;
+  description: string;
+  version: string;
+  template: string;
+  variables: string[];
+  isDefault: boolean;
+}
+
+interface PromptOverride {
+  template: string;
+  revision: number;
+  updatedAt: string;
+}
+
+export const PROMPT_STORAGE_KEYS = {
+  overrides: 'prompt_template_overrides',
+  revisions: 'prompt_template_revisions',
+  analogyStyle: 'prompt_analogy_style'
+};
+
+export const DEFAULT_ANALOGY_STYLE = 'everyday, non-technical situations (household, travel, workplace)';
+
+const DEFAULT_TEMPLATES: Record<PromptTemplateId, Omit<PromptTemplate, 'isDefault'>> = {
+  'insight-extraction': {
+    id: 'insight-extraction',
+    name: 'Insight Extraction',
+    description: 'Turns staged questions into foundational rules, analogies and elimination cues.',
+    version: '1.0.0',
+    variables: ['exam', 'examName', 'skillsOutline', 'groundingDomains', 'analogyStyle', 'questionBatch'],
+    template: `
+You are the "{{exam}} Concept Validation and Logic Extraction Engine." Your goal is to convert correctly answered {{exam}} quiz items into valid, reusable logic patterns rooted in official documentation and optimized for NotebookLM slide generation.
+
+### EXAM SKILLS OUTLINE:
+{{skillsOutline}}
+
+### TASK:
+For each correctly answered input item:
+1. **Active Documentation Retrieval**: Use Google Search tool to query {{groundingDomains}} for the relevant {{exam}} objective.
+2. **Principle Validation**: Identify the foundational principle (e.g., control plane vs. data plane, statefulness, regional availability).
+3. **Abstraction into Core Rules**: Abstract the principle into a topic-neutral "Core Rule".
+4. **Reinforcement Synthesis**: Generate an analogy drawn from {{analogyStyle}}, an analogous foundational concept, and a common confusion.
+
+### OUTPUT STRUCTURE (JSON):
+- **domain**: The specific {{exam}} domain name from the skills outline.
+- **blocks**: Array of insight objects including sourceQuestionId, foundationalRule, whyItWorks, analogy, analogousFoundationalConcept, commonConfusion, examEliminationCue, and memoryHook.
+
+### INPUT QUESTIONS TO PROCESS:
+{{questionBatch}}
+`
+  },
+  'answer-cleaner': {
+    id: 'answer-cleaner',
+    name: 'Answer Cleaner',
+    description: 'Pulls correctly answered questions out of pasted text or documents.',
+    version: '1.0.0',
+    variables: ['exam', 'examName'],
+    template: `
+You are the "{{exam}} Clean Answer Extractor."
+### TASK:
+Analyze the provided data (raw text or document).
+Extract ONLY the questions that were answered CORRECTLY.
+Format them into a clean JSON array.
+For each item, include the question text, the correct answer, and a brief official explanation.
+Do not include questions with incorrect answers.
+Identify the correct answer based on markings like "Correct Answer:", bolded options, or explanation notes.
+Include every qualifying question in the input; there is no upper limit.
+`
+  },
+  'mistake-cleaner': {
+    id: 'mistake-cleaner',
+    name: 'Mistake Extractor',
+    description: 'Pulls incorrectly answered questions, with the answer the user chose, out of pasted text or documents.',
+    version: '1.0.0',
+    variables: ['exam', 'examName'],
+    template: `
+You are the "{{exam}} Mistake Extractor."
+### TASK:
+Analyze the provided data (raw text or document).
+Extract ONLY the questions that were answered INCORRECTLY.
+Format them into a clean JSON array.
+For each item, include the question text, the correct answer, a brief official explanation, and in "userAnswer" the answer the user actually selected.
+Do not include questions that were answered correctly.
+Identify the user's selection from markings like "Your answer:", "Selected", highlighted or crossed-out options, and the correct answer from "Correct Answer:" or explanation notes.
+Include every qualifying question in the input; there is no upper limit.
+`
+  },
+  'mistake-analysis': {
+    id: 'mistake-analysis',
+    name: 'Mistake Analysis',
+    description: 'Added to the insight prompt for questions answered incorrectly; explains why the chosen answer was wrong.',
+    version: '1.0.0',
+    variables: ['exam', 'mistakeQuestionIds'],
+    template: `
+### MISTAKE ANALYSIS:
+The questions with ids {{mistakeQuestionIds}} were answered INCORRECTLY; their "userAnswer" is the option the candidate chose.
+For each of them, also return a "mistake" object on its block:
+- **chosenAnswer**: the userAnswer, verbatim.
+- **misconception**: the mistaken belief about {{exam}} that makes the chosen answer look right.
+- **disprovingRule**: the documented rule that rules the chosen answer out.
+Write that block's examEliminationCue so it would have eliminated the chosen answer.
+`
+  },
+  'field-regeneration': {
+    id: 'field-regeneration',
+    name: 'Field Regeneration',
+    description: 'Writes a new version of one field of an existing insight block, e.g. another analogy or memory hook.',
+    version: '1.0.0',
+    variables: ['exam', 'examName', 'fieldName', 'fieldGuidance', 'question', 'block', 'previousVersions'],
+    template: `
+You are refining one part of an existing {{exam}} ({{examName}}) insight block.
+
+### SOURCE QUESTION:
+{{question}}
+
+### CURRENT BLOCK:
+{{block}}
+
+### TASK:
+Write a new **{{fieldName}}** for this block. {{fieldGuidance}}
+It must stay consistent with the block's foundationalRule and accurate for {{exam}}, and differ meaningfully from every previous version:
+{{previousVersions}}
+
+### OUTPUT STRUCTURE (JSON):
+- **value**: the new {{fieldName}} text only.
+`
+  }
+};
+
+export const PROMPT_TEMPLATE_IDS = Object.keys(DEFAULT_TEMPLATES) as PromptTemplateId[];
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? (JSON.parse(saved) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const getOverrides = () => readJson<Partial<Record<PromptTemplateId, PromptOverride>>>(PROMPT_STORAGE_KEYS.overrides, {});
+
+export const getDefaultPromptTemplate = (id: PromptTemplateId): PromptTemplate => ({
+  ...DEFAULT_TEMPLATES[id],
+  isDefault: true
+});
+
+// Edited templates keep the default's version with a monotonically increasing edit revision.
+export const getPromptTemplate = (id: PromptTemplateId): PromptTemplate => {
+  const base = getDefaultPromptTemplate(id);
+  const override = getOverrides()[id];
+  if (!override) return base;
+
+  return {
+    ...base,
+    template: override.template,
+    version: `${base.version}+edit.${override.revision}`,
+    isDefault: false
+  };
+};
+
+export const savePromptTemplate = (id: PromptTemplateId, template: string) => {
+  const revisions = readJson<Partial<Record<PromptTemplateId, number>>>(PROMPT_STORAGE_KEYS.revisions, {});
+  const revision = (revisions[id] || 0) + 1;
+
+  localStorage.setItem(PROMPT_STORAGE_KEYS.revisions, JSON.stringify({ ...revisions, [id]: revision }));
+  localStorage.setItem(PROMPT_STORAGE_KEYS.overrides, JSON.stringify({
+    ...getOverrides(),
+    [id]: { template, revision, updatedAt: new Date().toISOString() }
+  }));
+};
+
+export const resetPromptTemplate = (id: PromptTemplateId) => {
+  const overrides = getOverrides();
+  delete overrides[id];
+  localStorage.setItem(PROMPT_STORAGE_KEYS.overrides, JSON.stringify(overrides));
+};
+
+export const getAnalogyStyle = (): string =>
+  localStorage.getItem(PROMPT_STORAGE_KEYS.analogyStyle) || DEFAULT_ANALOGY_STYLE;
+
+export const renderTemplate = (template: string, vars: Record<string, string>): string =>
+  template.replace(/\{\{(\w+)\}\}/g, (match, key) => (key in vars ? vars[key] : match));
+
+export const getPromptVersionLabel = (template: PromptTemplate): string => `${template.id}@${template.version}`;
@@ -0,0 +1,161 @@
+import { ExamQuestion, ExtractedQuestion, QuestionAnswer, QuestionType, YesNoStatement } from "./types";
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  'single': 'Single choice',
+  'multi-select': 'Multi-select',
+  'ordering': 'Ordered sequence',
+  'yes-no-series': 'Yes/No series',
+  'case-study': 'Case study'
+};
+
+const TYPE_BY_LABEL = Object.fromEntries(
+  Object.entries(QUESTION_TYPE_LABELS).map(([type, label]) => [label.toLowerCase(), type as QuestionType])
+);
+
+const BLOCK_HEADER_PATTERN = /^(Type|Case Study):/i;
+const QUESTION_LINE_PATTERN = /^Question:/i;
+
+/**
+ * Splits staging text into one block per question. A block starts at its
+ * "Question:" line, or at the "Type:" / "Case Study:" lines right before it,
+ * so blank lines inside a scenario or explanation don't break it up. Text
+ * before the first question belongs to none and is returned as `unparsed`.
+ */
+export const splitStagedBlocks = (text: string): { blocks: string[]; unparsed: string } => {
+  const blocks: { lines: string[]; hasQuestion: boolean }[] = [];
+  const unparsed: string[] = [];
+
+  text.split(/\r?\n/).forEach(line => {
+    const trimmed = line.trim();
+    const current = blocks[blocks.length - 1];
+    const isQuestion = QUESTION_LINE_PATTERN.test(trimmed);
+    if ((isQuestion || BLOCK_HEADER_PATTERN.test(trimmed)) && (!current || current.hasQuestion)) {
+      blocks.push({ lines: [line], hasQuestion: isQuestion });
+    } else if (current) {
+      current.lines.push(line);
+      current.hasQuestion = current.hasQuestion || isQuestion;
+    } else {
+      unparsed.push(line);
+    }
+  });
+
+  // A trailing header with no question after it is as unusable as leading text
+  const complete = blocks.filter(block => block.hasQuestion);
+  blocks.filter(block => !block.hasQuestion).forEach(block => unparsed.push(...block.lines));
+  return {
+    blocks: complete.map(block => block.lines.join('\n').trim()),
+    unparsed: unparsed.join('\n').trim()
+  };
+};
+
+// Field values are flattened to one line so they can never split a staged block.
+const oneLine = (text: string) => text.replace(/\s*\n\s*/g, ' ').trim();
+
+/** One-line answer summary for badges, copy text and legacy string-based consumers. */
+export const summarizeAnswer = (q: QuestionAnswer): string => {
+  switch (q.type) {
+    case 'multi-select':
+      return q.correctAnswers.join(' + ');
+    case 'ordering':
+      return q.orderedSteps.map((step, i) => `${i + 1}. ${step}`).join(' → ');
+    case 'yes-no-series':
+      return q.statements.map(s => s.answer).join(' / ');
+    default:
+      return q.correctAnswer;
+  }
+};
+
+/**
+ * Serialises a question into the staging-area text format. Single-choice
+ * questions keep the original "Question / Correct Answer / Explanation"
+ * layout; other types add a "Type:" line and list their answers one per line.
+ */
+export const formatQuestionForStaging = (q: ExtractedQuestion): string => {
+  const lines: string[] = [];
+  if (q.type !== 'single') lines.push(`Type: ${QUESTION_TYPE_LABELS[q.type]}`);
+  if (q.type === 'case-study') lines.push(`Case Study: ${oneLine(q.scenario)}`);
+  lines.push(`Question: ${oneLine(q.text)}`);
+  if (q.options?.length) lines.push('Options:', ...q.options.map(o => `- ${oneLine(o)}`));
+
+  switch (q.type) {
+    case 'multi-select':
+      lines.push('Correct Answers:', ...q.correctAnswers.map(a => `- ${oneLine(a)}`));
+      break;
+    case 'ordering':
+      lines.push('Correct Order:', ...q.orderedSteps.map((step, i) => `${i + 1}. ${oneLine(step)}`));
+      break;
+    case 'yes-no-series':
+      lines.push('Statements:', ...q.statements.map(s => `- ${oneLine(s.statement)} => ${s.answer}`));
+      break;
+    default:
+      lines.push(`Correct Answer: ${oneLine(q.correctAnswer)}`);
+  }
+
+  if (q.userAnswer) lines.push(`Your Answer: ${oneLine(q.userAnswer)}`);
+  if (q.explanation) lines.push(`Explanation: ${oneLine(q.explanation)}`);
+  return lines.join('\n');
+};
+
+const FIELD_PATTERN = /^(Type|Case Study|Question|Options|Correct Answers?|Correct Order|Statements|Your Answer|Explanation):\s*(.*)$/i;
+const LIST_ITEM_PATTERN = /^(?:-|\d+[.)])\s+(.+)$/;
+const STATEMENT_PATTERN = /^(.*?)\s*=>\s*(yes|no)$/i;
+
+/**
+ * Parses a staged text block back into a structured question. Blocks without
+ * a "Type:" line are treated as single choice, and lines that don't start a
+ * field continue the previous one, so hand-edited staging text still parses.
+ */
+export const parseStagedQuestion = (block: string, id: string): ExamQuestion => {
+  const fields: Record<string, string> = {};
+  const lists: Record<string, string[]> = {};
+  let current = '';
+
+  block.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line) return;
+    const field = line.match(FIELD_PATTERN);
+    if (field) {
+      current = field[1].toLowerCase();
+      fields[current] = field[2].trim();
+      return;
+    }
+    const item = line.match(LIST_ITEM_PATTERN);
+    if (item && ['options', 'correct answers', 'correct order', 'statements'].includes(current)) {
+      (lists[current] = lists[current] || []).push(item[1].trim());
+    } else if (current) {
+      fields[current] = `${fields[current]} ${line}`.trim();
+    }
+  });
+
+  const type = TYPE_BY_LABEL[(fields['type'] || '').toLowerCase()] || 'single';
+  const base = {
+    id,
+    text: fields['question'] || block.trim(),
+    options: lists['options'],
+    explanation: fields['explanation'] || undefined,
+    userAnswer: fields['your answer'] || undefined
+  };
+  const single = fields['correct answer'] || fields['correct answers'] || '';
+
+  switch (type) {
+    case 'multi-select':
+      return { ...base, type, correctAnswers: lists['correct answers'] || single.split(/\s*\+\s*/).filter(Boolean) };
+    case 'ordering':
+      return { ...base, type, orderedSteps: lists['correct order'] || [] };
+    case 'yes-no-series':
+      return {
+        ...base,
+        type,
+        statements: (lists['statements'] || []).map((s): YesNoStatement => {
+          const match = s.match(STATEMENT_PATTERN);
+          return match
+            ? { statement: match[1], answer: match[2].toLowerCase() === 'yes' ? 'Yes' : 'No' }
+            : { statement: s, answer: 'Yes' };
+        })
+      };
+    case 'case-study':
+      return { ...base, type, scenario: fields['case study'] || '', correctAnswer: single };
+    default:
+      return { ...base, type: 'single', correctAnswer: single || 'Verified' };
+  }
+};
@@ -0,0 +1,217 @@
+import { ExtractedQuestion, ExtractionMode } from "./types";
+import { readZipTextFiles } from "./zipReader";
+import { applyExtractionMode, resolveAnswers } from "./practiceTestParser";
+
+export type ImportKind = 'docx' | 'html' | 'csv' | 'json';
+
+export type ImportField = 'text' | 'options' | 'correctAnswer' | 'explanation' | 'userAnswer';
+
+// Options can come from several columns (Option A, Option B, ...); every other field maps to one
+export interface FieldMapping {
+  text: string;
+  options: string[];
+  correctAnswer: string;
+  explanation: string;
+  userAnswer: string;
+}
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  text: 'Question Text',
+  options: 'Options',
+  correctAnswer: 'Correct Answer',
+  explanation: 'Explanation',
+  userAnswer: 'Your Answer'
+};
+
+export interface ImportTable {
+  fileName: string;
+  columns: string[];
+  rows: Record<string, unknown>[];
+}
+
+const KIND_BY_EXTENSION: Record<string, ImportKind> = {
+  docx: 'docx',
+  html: 'html',
+  htm: 'html',
+  csv: 'csv',
+  json: 'json'
+};
+
+export const IMPORT_ACCEPT = Object.keys(KIND_BY_EXTENSION).map(ext => `.${ext}`).join(',');
+
+// Browsers report inconsistent MIME types for these (CSV is often application/vnd.ms-excel), so go by extension
+export const getImportKind = (file: File): ImportKind | null =>
+  KIND_BY_EXTENSION[file.name.split('.').pop()?.toLowerCase() || ''] || null;
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+/** Plain text of a Word document, one paragraph per line. */
+export const extractDocxText = async (buffer: ArrayBuffer): Promise<string> => {
+  const [entry] = await readZipTextFiles(buffer, path => path === 'word/document.xml');
+  if (!entry) throw new Error('Not a Word document: word/document.xml is missing.');
+
+  const xml = new DOMParser().parseFromString(entry.text, 'application/xml');
+  return Array.from(xml.getElementsByTagNameNS(WORD_NS, 'p'))
+    .map(paragraph => Array.from(paragraph.getElementsByTagNameNS(WORD_NS, 't')).map(t => t.textContent || '').join(''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+const BLOCK_TAGS = new Set(['P', 'DIV', 'LI', 'BR', 'TR', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'SECTION', 'ARTICLE', 'TABLE', 'UL', 'OL', 'PRE', 'BLOCKQUOTE']);
+
+/** Visible text of a saved HTML page, with block elements on their own lines. */
+export const extractHtmlText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('script, style, noscript, template, svg').forEach(el => el.remove());
+
+  const lines: string[] = [];
+  let line = '';
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      line += node.textContent?.replace(/\s+/g, ' ') || '';
+      return;
+    }
+    const isBlock = node instanceof Element && BLOCK_TAGS.has(node.tagName);
+    if (isBlock) { lines.push(line); line = ''; }
+    node.childNodes.forEach(walk);
+    if (isBlock) { lines.push(line); line = ''; }
+  };
+  walk(doc.body);
+  lines.push(line);
+
+  return lines.map(l => l.trim()).join('\n').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+/** RFC 4180 CSV: quoted fields may contain commas, quotes ("") and line breaks. */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+  // Spreadsheets exported in European locales use semicolons
+  const firstLine = input.split(/\r?\n/, 1)[0];
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) rows.push([...row, field]);
+
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+export const readCsvTable = (fileName: string, text: string): ImportTable => {
+  const [header, ...body] = parseCsv(text);
+  if (!header || body.length === 0) throw new Error('The CSV file needs a header row and at least one question.');
+  const columns = header.map((name, i) => name.trim() || `Column ${i + 1}`);
+  return {
+    fileName,
+    columns,
+    rows: body.map(cells => Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? ''])))
+  };
+};
+
+/** Accepts an array of question objects, or an object wrapping one (e.g. { "questions": [...] }). */
+export const readJsonTable = (fileName: string, text: string): ImportTable => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The JSON file could not be parsed.');
+  }
+  const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+  const list = Array.isArray(data)
+    ? data
+    : isObject(data) ? Object.values(data).find(v => Array.isArray(v) && v.some(isObject)) : undefined;
+  const rows = Array.isArray(list) ? list.filter(isObject) : [];
+  if (rows.length === 0) throw new Error('No question objects found in the JSON file.');
+
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  return { fileName, columns, rows };
+};
+
+const FIELD_HINTS: Record<Exclude<ImportField, 'options'>, RegExp> = {
+  text: /^(question|question ?text|prompt|stem|text)$/i,
+  correctAnswer: /^(correct ?answers?|answers?|solution|key)$/i,
+  explanation: /^(explanation|rationale|reason|notes?)$/i,
+  userAnswer: /^(your ?answer|my ?answer|user ?answer|selected|response)$/i
+};
+const OPTION_HINT = /^(options?|choices?|answers? ?options?|(option|choice|answer) ?[a-h1-8])$/i;
+
+/** Pre-fills the mapping from common column names so well-labelled banks import in one click. */
+export const guessMapping = (columns: string[]): FieldMapping => {
+  const find = (pattern: RegExp) => columns.find(c => pattern.test(c.trim())) || '';
+  return {
+    text: find(FIELD_HINTS.text),
+    options: columns.filter(c => OPTION_HINT.test(c.trim())),
+    correctAnswer: find(FIELD_HINTS.correctAnswer),
+    explanation: find(FIELD_HINTS.explanation),
+    userAnswer: find(FIELD_HINTS.userAnswer)
+  };
+};
+
+const cellText = (value: unknown): string =>
+  value === undefined || value === null ? '' : Array.isArray(value) ? value.map(cellText).join('\n') : String(value).trim();
+
+// A single options cell may hold a JSON array or a newline/pipe separated list
+const cellList = (value: unknown): string[] =>
+  (Array.isArray(value) ? value.map(cellText) : cellText(value).split(/\r?\n|\s*\|\s*/)).filter(Boolean);
+
+/**
+ * Turns mapped rows into questions without a model call. Answers may be
+ * option letters or option text; several answers make a multi-select
+ * question. Rows without question text or answer are skipped.
+ */
+export const mapRowsToQuestions = (
+  table: ImportTable,
+  mapping: FieldMapping,
+  mode: ExtractionMode
+): ExtractedQuestion[] | null => {
+  const questions: ExtractedQuestion[] = [];
+
+  table.rows.forEach(row => {
+    const text = cellText(row[mapping.text]);
+    const options = mapping.options.length === 1
+      ? cellList(row[mapping.options[0]])
+      : mapping.options.map(column => cellText(row[column])).filter(Boolean);
+    const answerCell = row[mapping.correctAnswer];
+    const correct = Array.isArray(answerCell)
+      ? answerCell.map(cellText).filter(Boolean)
+      : resolveAnswers(cellText(answerCell), options);
+    if (!text || !correct?.length) return;
+
+    const chosen = mapping.userAnswer ? resolveAnswers(cellText(row[mapping.userAnswer]), options) : null;
+    const base = {
+      id: `q-${questions.length + 1}`,
+      text,
+      ...(options.length ? { options } : {}),
+      explanation: mapping.explanation ? cellText(row[mapping.explanation]) : '',
+      ...(chosen ? { userAnswer: chosen.join(' + ') } : {})
+    };
+    questions.push(correct.length > 1
+      ? { ...base, type: 'multi-select', correctAnswers: correct }
+      : { ...base, type: 'single', correctAnswer: correct[0] });
+  });
+
+  return applyExtractionMode(questions, mode);
+};
@@ -0,0 +1,377 @@
+import { ExtractedQuestion, ExtractionResult, InsightBlock, QuestionAnswer, QuestionType } from "./types";
+
+export class ValidationError extends Error {
+  issues: string[];
+
+  constructor(context: string, issues: string[]) {
+    super(`${context}: ${issues.slice(0, 3).join('; ')}${issues.length > 3 ? ` (+${issues.length - 3} more)` : ''}`);
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+const INSIGHT_BLOCK_FIELDS: (keyof InsightBlock)[] = [
+  'sourceQuestionId',
+  'foundationalRule',
+  'whyItWorks',
+  'analogy',
+  'analogousFoundationalConcept',
+  'commonConfusion',
+  'examEliminationCue',
+  'memoryHook'
+];
+
+const QUESTION_FIELDS = ['text', 'explanation'];
+
+const QUESTION_TYPES: QuestionType[] = ['single', 'multi-select', 'ordering', 'yes-no-series', 'case-study'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkString = (obj: Record<string, unknown>, key: string, path: string, issues: string[]) => {
+  const value = obj[key];
+  if (value === undefined || value === null) {
+    issues.push(`${path}.${key} is missing`);
+  } else if (typeof value !== 'string') {
+    issues.push(`${path}.${key} must be a string`);
+  } else if (!value.trim()) {
+    issues.push(`${path}.${key} is empty`);
+  }
+};
+
+const checkStringArray = (obj: Record<string, unknown>, key: string, path: string, issues: string[], minItems = 1) => {
+  const value = obj[key];
+  if (!Array.isArray(value)) {
+    issues.push(`${path}.${key} must be an array`);
+  } else if (value.length < minItems) {
+    issues.push(`${path}.${key} needs at least ${minItems} item${minItems === 1 ? '' : 's'}`);
+  } else if (value.some(v => typeof v !== 'string' || !v.trim())) {
+    issues.push(`${path}.${key} must only contain non-empty strings`);
+  }
+};
+
+// Checks the fields required by the question's type and keeps only those, so stray fields don't leak through.
+const validateQuestionAnswer = (item: Record<string, unknown>, path: string, issues: string[]): QuestionAnswer | null => {
+  const type = (item.type ?? 'single') as QuestionType;
+  if (!QUESTION_TYPES.includes(type)) {
+    issues.push(`${path}.type must be one of ${QUESTION_TYPES.join(', ')}`);
+    return null;
+  }
+
+  const before = issues.length;
+  switch (type) {
+    case 'multi-select':
+      checkStringArray(item, 'correctAnswers', path, issues, 2);
+      break;
+    case 'ordering':
+      checkStringArray(item, 'orderedSteps', path, issues, 2);
+      break;
+    case 'yes-no-series':
+      if (!Array.isArray(item.statements) || item.statements.length === 0) {
+        issues.push(`${path}.statements must be a non-empty array`);
+      } else {
+        item.statements.forEach((s, i) => {
+          const statementPath = `${path}.statements[${i}]`;
+          if (!isRecord(s)) {
+            issues.push(`${statementPath} must be an object`);
+            return;
+          }
+          checkString(s, 'statement', statementPath, issues);
+          if (s.answer !== 'Yes' && s.answer !== 'No') issues.push(`${statementPath}.answer must be "Yes" or "No"`);
+        });
+      }
+      break;
+    case 'case-study':
+      checkString(item, 'scenario', path, issues);
+      checkString(item, 'correctAnswer', path, issues);
+      break;
+    default:
+      checkString(item, 'correctAnswer', path, issues);
+  }
+  if (issues.length > before) return null;
+
+  switch (type) {
+    case 'multi-select':
+      return { type, correctAnswers: item.correctAnswers as string[] };
+    case 'ordering':
+      return { type, orderedSteps: item.orderedSteps as string[] };
+    case 'yes-no-series':
+      return { type, statements: (item.statements as Record<string, string>[]).map(s => ({ statement: s.statement, answer: s.answer as 'Yes' | 'No' })) };
+    case 'case-study':
+      return { type, scenario: item.scenario as string, correctAnswer: item.correctAnswer as string };
+    default:
+      return { type: 'single', correctAnswer: item.correctAnswer as string };
+  }
+};
+
+/**
+ * Pulls the first JSON value out of a model response, dropping code fences and
+ * trailing prose. If the output was cut off, the last incomplete element is
+ * discarded and any open arrays/objects are closed.
+ */
+export const repairJson = (raw: string): string => {
+  const text = raw.replace(/```json\n?|\n?```/g, '').trim();
+  const start = text.search(/[[{]/);
+  if (start === -1) return text;
+
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let lastCut = -1;
+  let lastCutStack: string[] = [];
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      stack.push(ch);
+    } else if (ch === '}' || ch === ']') {
+      stack.pop();
+      if (stack.length === 0) return text.slice(start, i + 1);
+      lastCut = i + 1;
+      lastCutStack = [...stack];
+    } else if (ch === ',') {
+      lastCut = i;
+      lastCutStack = [...stack];
+    }
+  }
+
+  if (lastCut === -1) return text.slice(start);
+
+  const closers = lastCutStack.reverse().map(open => (open === '{' ? '}' : ']')).join('');
+  return text.slice(start, lastCut) + closers;
+};
+
+export const parseModelJson = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    try {
+      return JSON.parse(repairJson(raw));
+    } catch {
+      throw new ValidationError('Model output is not valid JSON', ['response could not be parsed or repaired']);
+    }
+  }
+};
+
+export const validateInsightBlock = (value: unknown, path: string): string[] => {
+  const issues: string[] = [];
+  if (!isRecord(value)) return [`${path} must be an object`];
+  INSIGHT_BLOCK_FIELDS.forEach(field => checkString(value, field, path, issues));
+  return issues;
+};
+
+const MISTAKE_FIELDS = ['chosenAnswer', 'misconception', 'disprovingRule'];
+
+export interface ExpectedBlocks {
+  questionIds: string[];
+  // Blocks for these questions must carry a complete "mistake" analysis
+  mistakeQuestionIds?: string[];
+  // Number of captured options per question id; those blocks need an option breakdown covering them
+  optionCounts?: Record<string, number>;
+}
+
+const validateOptionBreakdown = (value: unknown, expectedCount: number, path: string, issues: string[]) => {
+  if (!Array.isArray(value)) {
+    issues.push(`${path}.optionBreakdown is missing`);
+    return;
+  }
+  if (value.length < expectedCount) {
+    issues.push(`${path}.optionBreakdown covers ${value.length} of ${expectedCount} options`);
+  }
+  value.forEach((entry, i) => {
+    const entryPath = `${path}.optionBreakdown[${i}]`;
+    if (!isRecord(entry)) {
+      issues.push(`${entryPath} must be an object`);
+      return;
+    }
+    checkString(entry, 'option', entryPath, issues);
+    checkString(entry, 'reason', entryPath, issues);
+    if (typeof entry.isCorrect !== 'boolean') issues.push(`${entryPath}.isCorrect must be a boolean`);
+  });
+};
+
+/**
+ * Validates an insight response. When the expected blocks are given, every
+ * question must get exactly one block, plus the mistake analysis and option
+ * breakdown its input called for; principle blocks must not carry a mistake.
+ */
+export const validateExtractionResult = (value: unknown, expected?: ExpectedBlocks): ExtractionResult => {
+  const questionIds = expected?.questionIds;
+  const mistakeQuestionIds = expected?.mistakeQuestionIds || [];
+  const optionCounts = expected?.optionCounts || {};
+  const issues: string[] = [];
+
+  if (!isRecord(value)) {
+    throw new ValidationError('Invalid insight result', ['root must be an object']);
+  }
+
+  checkString(value, 'domain', 'result', issues);
+
+  if (!Array.isArray(value.blocks)) {
+    issues.push('result.blocks must be an array');
+  } else {
+    if (value.blocks.length === 0) {
+      issues.push('result.blocks is empty');
+    }
+    value.blocks.forEach((block, i) => issues.push(...validateInsightBlock(block, `blocks[${i}]`)));
+
+    if (questionIds) {
+      const returnedIds = value.blocks.map(block => (isRecord(block) ? block.sourceQuestionId : undefined));
+      questionIds
+        .filter(id => !returnedIds.includes(id))
+        .forEach(id => issues.push(`no block returned for question ${id}`));
+      returnedIds.forEach((id, i) => {
+        if (typeof id !== 'string' || !id) return;
+        if (!questionIds.includes(id)) {
+          issues.push(`blocks[${i}].sourceQuestionId "${id}" does not match any input question`);
+        } else if (returnedIds.indexOf(id) !== i) {
+          issues.push(`blocks[${i}].sourceQuestionId "${id}" is used by more than one block`);
+        }
+      });
+    }
+
+    value.blocks.forEach((block, i) => {
+      if (!isRecord(block)) return;
+      const id = block.sourceQuestionId as string;
+      const hasMistake = block.mistake !== undefined && block.mistake !== null;
+      // Without expected blocks the kind is whatever the block claims, but a claimed mistake must still be complete
+      const isMistakeBlock = expected ? mistakeQuestionIds.includes(id) : hasMistake;
+      if (isMistakeBlock) {
+        if (!isRecord(block.mistake)) {
+          issues.push(`blocks[${i}].mistake is missing for incorrectly answered question ${id}`);
+        } else {
+          const mistake = block.mistake;
+          MISTAKE_FIELDS.forEach(field => checkString(mistake, field, `blocks[${i}].mistake`, issues));
+        }
+      } else if (hasMistake) {
+        issues.push(`blocks[${i}].mistake must be omitted; question ${id} was not answered incorrectly`);
+      }
+      if (optionCounts[id]) validateOptionBreakdown(block.optionBreakdown, optionCounts[id], `blocks[${i}]`, issues);
+    });
+  }
+
+  if (issues.length > 0) throw new ValidationError('Invalid insight result', issues);
+  return value as unknown as ExtractionResult;
+};
+
+// In mistake mode every question must say which answer the user picked; otherwise userAnswer is dropped.
+export const validateExtractedQuestions = (value: unknown, requireUserAnswer = false): ExtractedQuestion[] => {
+  const issues: string[] = [];
+
+  if (!Array.isArray(value)) {
+    throw new ValidationError('Invalid extracted questions', ['root must be an array']);
+  }
+
+  const questions: ExtractedQuestion[] = [];
+  value.forEach((item, i) => {
+    const path = `questions[${i}]`;
+    if (!isRecord(item)) {
+      issues.push(`${path} must be an object`);
+      return;
+    }
+    QUESTION_FIELDS.forEach(field => checkString(item, field, path, issues));
+    if (requireUserAnswer) checkString(item, 'userAnswer', path, issues);
+    if (item.options !== undefined && !(Array.isArray(item.options) && item.options.every(o => typeof o === 'string'))) {
+      issues.push(`${path}.options must be an array of strings`);
+    }
+    const answer = validateQuestionAnswer(item, path, issues);
+    if (answer) {
+      const id = typeof item.id === 'string' && item.id ? item.id : `q-${i + 1}`;
+      questions.push({
+        ...answer,
+        id,
+        text: item.text as string,
+        explanation: item.explanation as string,
+        ...(Array.isArray(item.options) && item.options.length > 0 ? { options: item.options as string[] } : {}),
+        ...(requireUserAnswer ? { userAnswer: item.userAnswer as string } : {})
+      });
+    }
+  });
+
+  if (issues.length > 0) throw new ValidationError('Invalid extracted questions', issues);
+
+  return questions;
+};
+
+const normalizeVariant = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// A repeat of an earlier version is re-asked like any other validation failure
+export const validateFieldVariant = (value: unknown, previous: string[]): string => {
+  const issues: string[] = [];
+  if (!isRecord(value)) {
+    throw new ValidationError('Invalid field variant', ['root must be an object']);
+  }
+  checkString(value, 'value', 'root', issues);
+  if (issues.length === 0 && previous.some(p => normalizeVariant(p) === normalizeVariant(value.value as string))) {
+    issues.push('root.value repeats a previous version; write a different one');
+  }
+  if (issues.length > 0) throw new ValidationError('Invalid field variant', issues);
+
+  return (value.value as string).trim();
+};
+
+export interface PartialExtraction {
+  domain?: string;
+  blocks: InsightBlock[];
+}
+
+/**
+ * Reads whatever is complete so far from a streaming insight response: the
+ * domain once its string has closed, and every fully closed object in the
+ * blocks array. A block still being written is ignored until it closes.
+ */
+export const parsePartialExtraction = (raw: string): PartialExtraction => {
+  const domainMatch = /"domain"\s*:\s*"((?:[^"\\]|\\.)*)"/.exec(raw);
+  const domain = domainMatch ? (JSON.parse(`"${domainMatch[1]}"`) as string) : undefined;
+
+  const blocks: InsightBlock[] = [];
+  const keyMatch = /"blocks"\s*:\s*\[/.exec(raw);
+  if (!keyMatch) return { domain, blocks };
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let blockStart = -1;
+
+  for (let i = keyMatch.index + keyMatch[0].length; i < raw.length; i++) {
+    const ch = raw[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      if (depth === 0 && ch === '{') blockStart = i;
+      depth++;
+    } else if (ch === '}' || ch === ']') {
+      if (depth === 0) break;
+      depth--;
+      if (depth === 0 && blockStart !== -1) {
+        try {
+          const block = JSON.parse(raw.slice(blockStart, i + 1));
+          if (validateInsightBlock(block, 'block').length === 0) blocks.push(block as InsightBlock);
+        } catch {
+          // Malformed block; the final validation pass will report it
+        }
+        blockStart = -1;
+      }
+    }
+  }
+
+  return { domain, blocks };
+};
@@ -0,0 +1,116 @@
+import { ExtractedQuestion, ExtractionMode } from "./types";
+
+const DB_NAME = 'answer_scraper_sessions';
+const DB_VERSION = 1;
+const STORE_NAME = 'sessions';
+// Older sessions are pruned so screenshots-heavy histories can't grow without bound
+const MAX_SESSIONS = 50;
+
+export type ScrapeInputType = 'text' | 'document' | 'pdf' | 'image' | 'mixed' | 'table';
+
+export interface ScrapeSession {
+  id: string;
+  sourceName: string;
+  inputType: ScrapeInputType;
+  mode: ExtractionMode;
+  // Local parser adapter or import label that produced the questions; null when the model did
+  parsedBy: string | null;
+  questions: ExtractedQuestion[];
+  // Keys (question id, or text when missing) of questions already pushed to the staging queue
+  pushedIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const SCRAPE_INPUT_ICONS: Record<ScrapeInputType, string> = {
+  text: 'fa-align-left',
+  document: 'fa-file-word',
+  pdf: 'fa-file-pdf',
+  image: 'fa-image',
+  mixed: 'fa-layer-group',
+  table: 'fa-table'
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      store.createIndex('createdAt', 'createdAt');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const runRequest = <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  openDb().then(db => new Promise<T>((resolve, reject) => {
+    const request = fn(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+
+export const createScrapeSession = (
+  sourceName: string,
+  inputType: ScrapeInputType,
+  mode: ExtractionMode
+): ScrapeSession => {
+  const now = new Date().toISOString();
+  return {
+    id: `scrape-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    sourceName,
+    inputType,
+    mode,
+    parsedBy: null,
+    questions: [],
+    pushedIds: [],
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+/** Newest first. */
+export const listScrapeSessions = async (): Promise<ScrapeSession[]> => {
+  try {
+    const sessions = await runRequest<ScrapeSession[]>('readonly', store => store.getAll());
+    return sessions.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  } catch (e) {
+    console.warn("Scrape history unavailable", e);
+    return [];
+  }
+};
+
+export const saveScrapeSession = async (session: ScrapeSession): Promise<void> => {
+  try {
+    await runRequest('readwrite', store => store.put({ ...session, updatedAt: new Date().toISOString() }));
+    const sessions = await listScrapeSessions();
+    for (const old of sessions.slice(MAX_SESSIONS)) {
+      await deleteScrapeSession(old.id);
+    }
+  } catch (e) {
+    console.warn("Failed to save scrape session", e);
+  }
+};
+
+export const deleteScrapeSession = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
+
+export const clearScrapeSessions = async (): Promise<void> => {
+  await runRequest('readwrite', store => store.clear());
+};
+
+export const getPushKey = (q: ExtractedQuestion) => q.id || q.text;
+
+export const countUnpushed = (session: ScrapeSession) => {
+  const pushed = new Set(session.pushedIds);
+  return session.questions.filter(q => !pushed.has(getPushKey(q))).length;
+};
@@ -0,0 +1,229 @@
+import { ExtractionResult, GroundingSource } from "./types";
+import { INSIGHT_FIELDS } from "./groundingCitations";
+import { summarizeAnswer } from "./questionFormat";
+import { escapeHtml } from "./insightExport";
+
+export const SLIDE_STORAGE_KEYS = {
+  theme: 'slide_deck_theme'
+};
+
+export type SlideThemeId = 'midnight' | 'paper' | 'contrast';
+
+// Colours are bare hex because pptxgenjs takes them without the leading "#"
+export interface SlideTheme {
+  label: string;
+  background: string;
+  surface: string;
+  title: string;
+  text: string;
+  accent: string;
+  muted: string;
+  font: string;
+}
+
+export const SLIDE_THEMES: Record<SlideThemeId, SlideTheme> = {
+  midnight: { label: 'Midnight', background: '0F172A', surface: '1E293B', title: 'F8FAFC', text: 'CBD5E1', accent: '60A5FA', muted: '64748B', font: 'Segoe UI' },
+  paper: { label: 'Paper', background: 'FFFFFF', surface: 'F1F5F9', title: '0F172A', text: '334155', accent: '2563EB', muted: '94A3B8', font: 'Georgia' },
+  contrast: { label: 'High Contrast', background: '000000', surface: '1A1A1A', title: 'FFFFFF', text: 'FFFFFF', accent: 'FACC15', muted: 'A3A3A3', font: 'Arial' }
+};
+
+export interface SlideSection {
+  label: string;
+  text: string;
+}
+
+export interface Slide {
+  kind: 'title' | 'insight';
+  title: string;
+  subtitle?: string;
+  sections: SlideSection[];
+  // Speaker notes: source question, elimination cue and the sources backing the slide
+  notes: string;
+}
+
+// Content boxes on an insight slide, in reading order; the rule itself is the slide title
+const SLIDE_SECTIONS: { field: 'analogy' | 'whyItWorks' | 'commonConfusion' | 'memoryHook'; label: string }[] = [
+  { field: 'analogy', label: 'Analogy' },
+  { field: 'whyItWorks', label: 'Why It Works' },
+  { field: 'commonConfusion', label: 'The Trap' },
+  { field: 'memoryHook', label: 'Memory Hook' }
+];
+
+export const getSlideThemeId = (): SlideThemeId => {
+  const saved = localStorage.getItem(SLIDE_STORAGE_KEYS.theme) as SlideThemeId | null;
+  return saved && saved in SLIDE_THEMES ? saved : 'midnight';
+};
+
+export const saveSlideThemeId = (id: SlideThemeId) => localStorage.setItem(SLIDE_STORAGE_KEYS.theme, id);
+
+const citedSources = (uris: string[], sources: GroundingSource[]) =>
+  sources
+    .map((source, i) => ({ source, number: i + 1 }))
+    .filter(({ source }) => uris.includes(source.uri));
+
+/** A title slide followed by one slide per insight block. */
+export const buildSlides = (result: ExtractionResult): Slide[] => {
+  const sources = result.sources || [];
+  const title: Slide = {
+    kind: 'title',
+    title: `${result.examCode ? `${result.examCode} ` : ''}Master Principles`,
+    subtitle: result.domain,
+    sections: [],
+    notes: `${result.blocks.length} principle${result.blocks.length === 1 ? '' : 's'} • ${new Date().toLocaleDateString()}`
+  };
+
+  return [title, ...result.blocks.map((block): Slide => {
+    const question = result.questions?.find(q => q.id === block.sourceQuestionId);
+    const cited = citedSources(INSIGHT_FIELDS.flatMap(f => block.citations?.[f] || []), sources);
+    const notes = [
+      question && `Question: ${question.text}\nAnswer: ${summarizeAnswer(question)}`,
+      block.examEliminationCue && `Elimination cue: ${block.examEliminationCue}`,
+      cited.length && `Sources:\n${cited.map(({ source, number }) => `[${number}] ${source.title} — ${source.uri}`).join('\n')}`
+    ];
+    return {
+      kind: 'insight',
+      title: block.foundationalRule,
+      subtitle: block.mistake ? `You chose "${block.mistake.chosenAnswer}": ${block.mistake.misconception}` : undefined,
+      sections: SLIDE_SECTIONS.filter(s => block[s.field]).map(s => ({ label: s.label, text: block[s.field] })),
+      notes: notes.filter(Boolean).join('\n\n')
+    };
+  })];
+};
+
+const htmlSlideStyles = (theme: SlideTheme) => `
+  * { box-sizing: border-box; }
+  html, body { margin: 0; height: 100%; background: #000; font-family: "${theme.font}", system-ui, sans-serif; }
+  .deck { position: relative; width: min(100vw, 177.78vh); height: min(56.25vw, 100vh); margin: auto; top: 50%; transform: translateY(-50%); }
+  .slide { position: absolute; inset: 0; display: none; flex-direction: column; padding: 5% 6%; background: #${theme.background}; color: #${theme.text}; font-size: min(1.6vw, 2.84vh); }
+  .slide.active { display: flex; }
+  .slide h1 { color: #${theme.title}; font-size: 2.4em; margin: 0 0 0.3em; line-height: 1.15; border-left: 0.25em solid #${theme.accent}; padding-left: 0.6em; }
+  .slide.title { justify-content: center; }
+  .slide.title h1 { font-size: 3.6em; border: none; padding: 0; }
+  .subtitle { color: #${theme.muted}; font-size: 1.2em; margin: 0 0 1em; }
+  .grid { flex: 1; display: grid; grid-template-columns: 1fr 1fr; gap: 1em; }
+  .box { background: #${theme.surface}; border-radius: 0.6em; padding: 1em 1.2em; }
+  .box h2 { color: #${theme.accent}; font-size: 0.75em; text-transform: uppercase; letter-spacing: 0.1em; margin: 0 0 0.5em; }
+  .box p { margin: 0; line-height: 1.4; }
+  .counter { position: absolute; right: 3%; bottom: 3%; color: #${theme.muted}; font-size: 0.7em; }
+  .notes { display: none; position: fixed; left: 0; right: 0; bottom: 0; max-height: 30vh; overflow: auto; background: rgba(0,0,0,0.85); color: #eee; font: 13px/1.5 system-ui, sans-serif; padding: 12px 20px; white-space: pre-wrap; }
+  body.show-notes .slide.active .notes { display: block; }
+  @media print {
+    html, body { background: none; height: auto; }
+    .deck { width: 100%; height: auto; transform: none; top: 0; }
+    .slide { position: relative; display: flex; aspect-ratio: 16 / 9; break-after: page; font-size: 11pt; }
+    .notes, .counter { display: none !important; }
+  }
+`;
+
+// Arrow keys, space and PageUp/PageDown move; Home/End jump; N toggles speaker notes
+const HTML_SLIDE_SCRIPT = `
+  const slides = document.querySelectorAll('.slide');
+  let current = 0;
+  const show = (i) => {
+    current = Math.max(0, Math.min(slides.length - 1, i));
+    slides.forEach((s, j) => s.classList.toggle('active', j === current));
+  };
+  document.addEventListener('keydown', (e) => {
+    if (['ArrowRight', 'ArrowDown', 'PageDown', ' '].includes(e.key)) show(current + 1);
+    else if (['ArrowLeft', 'ArrowUp', 'PageUp'].includes(e.key)) show(current - 1);
+    else if (e.key === 'Home') show(0);
+    else if (e.key === 'End') show(slides.length - 1);
+    else if (e.key === 'n' || e.key === 'N') document.body.classList.toggle('show-notes');
+    else return;
+    e.preventDefault();
+  });
+  document.addEventListener('click', (e) => show(current + (e.clientX < window.innerWidth / 3 ? -1 : 1)));
+  show(0);
+`;
+
+/** A single self-contained HTML file: inline styles and script, no external assets. */
+export const slidesToHtml = (slides: Slide[], theme: SlideTheme, deckTitle: string): string => {
+  const body = slides.map((slide, i) => {
+    const parts = [`<h1>${escapeHtml(slide.title)}</h1>`];
+    if (slide.subtitle) parts.push(`<p class="subtitle">${escapeHtml(slide.subtitle)}</p>`);
+    if (slide.sections.length) {
+      parts.push(`<div class="grid">${slide.sections.map(s => `<div class="box"><h2>${escapeHtml(s.label)}</h2><p>${escapeHtml(s.text)}</p></div>`).join('')}</div>`);
+    }
+    parts.push(`<span class="counter">${i + 1} / ${slides.length}</span>`);
+    if (slide.notes) parts.push(`<aside class="notes">${escapeHtml(slide.notes)}</aside>`);
+    return `<section class="slide ${slide.kind}">${parts.join('')}</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(deckTitle)}</title>
+<style>${htmlSlideStyles(theme)}</style>
+</head>
+<body>
+<div class="deck">
+${body.join('\n')}
+</div>
+<script>${HTML_SLIDE_SCRIPT}</script>
+</body>
+</html>
+`;
+};
+
+// 16:9 widescreen in inches
+const PPTX_WIDTH = 13.333;
+const PPTX_HEIGHT = 7.5;
+const PPTX_MARGIN = 0.6;
+
+/** Builds a .pptx with native text boxes (editable in PowerPoint, Keynote and Google Slides) and speaker notes. */
+export const slidesToPptx = async (slides: Slide[], theme: SlideTheme, deckTitle: string): Promise<Uint8Array> => {
+  const { default: PptxGenJS } = await import('pptxgenjs');
+  const pptx = new PptxGenJS();
+  pptx.layout = 'LAYOUT_WIDE';
+  pptx.title = deckTitle;
+  const contentWidth = PPTX_WIDTH - PPTX_MARGIN * 2;
+
+  slides.forEach(slide => {
+    const s = pptx.addSlide();
+    s.background = { color: theme.background };
+
+    if (slide.kind === 'title') {
+      s.addText(slide.title, { x: PPTX_MARGIN, y: 2.4, w: contentWidth, h: 1.4, fontFace: theme.font, fontSize: 44, bold: true, color: theme.title });
+      if (slide.subtitle) {
+        s.addText(slide.subtitle, { x: PPTX_MARGIN, y: 3.9, w: contentWidth, h: 0.8, fontFace: theme.font, fontSize: 22, color: theme.muted });
+      }
+    } else {
+      s.addShape(pptx.ShapeType.rect, { x: PPTX_MARGIN, y: 0.45, w: 0.08, h: 1.3, fill: { color: theme.accent }, line: { color: theme.accent } });
+      s.addText(slide.title, { x: PPTX_MARGIN + 0.25, y: 0.4, w: contentWidth - 0.25, h: 1.4, fontFace: theme.font, fontSize: 24, bold: true, color: theme.title, valign: 'middle', fit: 'shrink' });
+      let top = 1.95;
+      if (slide.subtitle) {
+        s.addText(slide.subtitle, { x: PPTX_MARGIN, y: top, w: contentWidth, h: 0.5, fontFace: theme.font, fontSize: 13, italic: true, color: theme.muted, fit: 'shrink' });
+        top += 0.6;
+      }
+
+      const gap = 0.25;
+      const columns = 2;
+      const rows = Math.ceil(slide.sections.length / columns);
+      const boxWidth = (contentWidth - gap) / columns;
+      const boxHeight = rows ? (PPTX_HEIGHT - 0.5 - top - gap * (rows - 1)) / rows : 0;
+      slide.sections.forEach((section, i) => {
+        s.addText([
+          { text: section.label.toUpperCase(), options: { fontSize: 11, bold: true, color: theme.accent, breakLine: true } },
+          { text: section.text, options: { fontSize: 15, color: theme.text } }
+        ], {
+          x: PPTX_MARGIN + (i % columns) * (boxWidth + gap),
+          y: top + Math.floor(i / columns) * (boxHeight + gap),
+          w: boxWidth,
+          h: boxHeight,
+          fontFace: theme.font,
+          fill: { color: theme.surface },
+          valign: 'top',
+          margin: 12,
+          fit: 'shrink'
+        });
+      });
+    }
+
+    if (slide.notes) s.addNotes(slide.notes);
+  });
+
+  const data = await pptx.write({ outputType: 'uint8array' });
+  return data as Uint8Array;
+};
@@ -0,0 +1,65 @@
+import { ExamQuestion, StagedItem, StagedOrigin } from "./types";
+import { formatQuestionForStaging, parseStagedQuestion, splitStagedBlocks } from "./questionFormat";
+
+export const STAGING_STORAGE_KEYS = {
+  items: 'analogical_insight_staged_items',
+  // Free-text staging area used before the structured queue; migrated on first load
+  legacyText: 'analogical_insight_input'
+};
+
+const createStagedId = () => `staged-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createStagedItem = (question: ExamQuestion, origin: StagedOrigin): StagedItem => {
+  const id = createStagedId();
+  return { id, question: { ...question, id }, origin };
+};
+
+/** The staging text for one item; also what its question hash is computed from. */
+export const stagedItemText = (item: StagedItem): string =>
+  formatQuestionForStaging({ ...item.question, explanation: item.question.explanation || '' });
+
+export const stagedItemsToText = (items: StagedItem[]): string => items.map(stagedItemText).join('\n\n');
+
+/**
+ * Parses raw staging text into items. Blocks whose text is unchanged keep the
+ * id and origin of the existing item they came from; anything else is manual.
+ * Text that isn't part of any question is returned so the caller can warn about it.
+ */
+export const textToStagedItems = (text: string, previous: StagedItem[] = []): { items: StagedItem[]; unparsed: string } => {
+  const byText = new Map(previous.map(item => [stagedItemText(item), item]));
+  const { blocks, unparsed } = splitStagedBlocks(text);
+  const items = blocks.map(block => {
+    const existing = byText.get(block);
+    if (existing) {
+      byText.delete(block);
+      return existing;
+    }
+    return createStagedItem(parseStagedQuestion(block, ''), 'manual');
+  });
+  return { items, unparsed };
+};
+
+export const loadStagedItems = (): StagedItem[] => {
+  try {
+    const stored = localStorage.getItem(STAGING_STORAGE_KEYS.items);
+    if (stored) return JSON.parse(stored);
+  } catch (e) {
+    console.warn("Stored staging queue is unreadable; starting empty.", e);
+    return [];
+  }
+  const legacy = localStorage.getItem(STAGING_STORAGE_KEYS.legacyText);
+  return legacy ? textToStagedItems(legacy).items : [];
+};
+
+export const saveStagedItems = (items: StagedItem[]) => {
+  localStorage.setItem(STAGING_STORAGE_KEYS.items, JSON.stringify(items));
+  localStorage.removeItem(STAGING_STORAGE_KEYS.legacyText);
+};
+
+export const moveStagedItem = (items: StagedItem[], from: number, to: number): StagedItem[] => {
+  if (from === to || from < 0 || to < 0 || from >= items.length || to >= items.length) return items;
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
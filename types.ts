@@ -1,23 +1,115 @@
 
-export interface AZ104Question {
+export type QuestionType = 'single' | 'multi-select' | 'ordering' | 'yes-no-series' | 'case-study';
+
+export interface YesNoStatement {
+  statement: string;
+  answer: 'Yes' | 'No';
+}
+
+// The answer shape depends on the question type; `type` is the discriminant.
+export type QuestionAnswer =
+  | { type: 'single'; correctAnswer: string }
+  | { type: 'multi-select'; correctAnswers: string[] }
+  | { type: 'ordering'; orderedSteps: string[] }
+  | { type: 'yes-no-series'; statements: YesNoStatement[] }
+  // Case studies repeat their shared scenario on every question that belongs to them
+  | { type: 'case-study'; scenario: string; correctAnswer: string };
+
+// "mistakes" captures incorrectly answered questions together with the answer the user picked
+export type ExtractionMode = 'correct' | 'mistakes';
+
+// "scraper" items were pushed from the Answer Scraper; "manual" ones were typed or pasted into the raw staging text
+export type StagedOrigin = 'scraper' | 'manual';
+
+export interface StagedItem {
+  id: string;
+  question: ExamQuestion;
+  origin: StagedOrigin;
+}
+
+// 1-based, inclusive page numbers
+export interface PageRange {
+  start: number;
+  end: number;
+}
+
+// A PDF or screenshot sent to the cleaner as an inline part; data is base64 without the data: prefix
+export interface InputAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  data: string;
+  // PDFs only: counted locally when the file is added, and the pages the user chose to extract
+  pageCount?: number;
+  pageRange?: PageRange;
+}
+
+export type ExamQuestion = QuestionAnswer & {
+  id: string;
   text: string;
-  correctAnswer: string;
+  // Every answer option as presented, correct ones included
+  options?: string[];
   explanation?: string;
-}
+  // Set only for questions answered incorrectly; turns on mistake analysis for the block
+  userAnswer?: string;
+};
 
-export interface ExtractedQuestion {
+export type ExtractedQuestion = QuestionAnswer & {
   id: string;
   text: string;
-  correctAnswer: string;
+  options?: string[];
   explanation: string;
-}
+  userAnswer?: string;
+};
+
+// "official" sources match the active profile's grounding domains (e.g. learn.microsoft.com)
+export type SourceTrust = 'official' | 'other';
 
 export interface GroundingSource {
   title: string;
   uri: string;
+  domain?: string;
+  trust?: SourceTrust;
+}
+
+export type InsightField =
+  | 'foundationalRule'
+  | 'whyItWorks'
+  | 'analogy'
+  | 'analogousFoundationalConcept'
+  | 'commonConfusion'
+  | 'examEliminationCue'
+  | 'memoryHook';
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  // Thinking tokens are billed as output tokens but reported separately
+  thinkingTokens: number;
+  costUsd: number;
+}
+
+export interface MistakeAnalysis {
+  chosenAnswer: string;
+  misconception: string;
+  disprovingRule: string;
+}
+
+// One version of a block field: as generated, regenerated or edited by hand
+export interface InsightVariant {
+  text: string;
+  citations?: string[];
+  source: 'generated' | 'regenerated' | 'edited';
+}
+
+export interface OptionVerdict {
+  option: string;
+  isCorrect: boolean;
+  reason: string;
 }
 
 export interface InsightBlock {
+  sourceQuestionId: string;
   foundationalRule: string;
   whyItWorks: string;
   analogy: string;
@@ -25,12 +117,46 @@ export interface InsightBlock {
   commonConfusion: string;
   examEliminationCue: string;
   memoryHook: string;
+  // Source URIs supporting each field, mapped from the model's grounding supports
+  citations?: Partial<Record<InsightField, string[]>>;
+  // Present on blocks for incorrectly answered questions
+  mistake?: MistakeAnalysis;
+  // Why each option is right or wrong; present when the source question had its options captured
+  optionBreakdown?: OptionVerdict[];
+  // Every version of a field seen so far; only present once a field has been edited or regenerated
+  variants?: Partial<Record<InsightField, InsightVariant[]>>;
 }
 
 export interface ExtractionResult {
   domain: string;
   blocks: InsightBlock[];
   sources?: GroundingSource[];
+  questions?: ExamQuestion[];
+  examCode?: string;
+  promptVersion?: string;
+  // Ids of questions whose blocks were served from the local cache
+  cachedQuestionIds?: string[];
+  usage?: TokenUsage;
+  // Per-block domain keyed by sourceQuestionId, for exports that mix domains (vault selections)
+  blockDomains?: Record<string, string>;
+  // Cache/vault question hash keyed by sourceQuestionId, so exports can identify a question across runs
+  questionHashes?: Record<string, string>;
+}
+
+export interface ExamProfile {
+  id: string;
+  name: string;
+  examCode: string;
+  skillsOutline: string[];
+  // Optional per-profile prompt overrides; the prompt registry templates are used otherwise
+  extractionPrompt?: string;
+  cleanerPrompt?: string;
+  groundingDomains: string[];
+  // Grounding sources outside the allow list (when set) or inside the deny list are dropped
+  allowedSourceDomains?: string[];
+  deniedSourceDomains?: string[];
+  vaultCollection: string;
+  builtIn?: boolean;
 }
 
 export enum ProcessingStatus {
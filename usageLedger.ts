@@ -0,0 +1,192 @@
+import { TokenUsage } from "./types";
+import { LLMTask, RawTokenUsage } from "./llmProvider";
+
+export const USAGE_STORAGE_KEYS = {
+  ledger: 'usage_ledger',
+  dailyBudget: 'usage_budget_daily_usd',
+  monthlyBudget: 'usage_budget_monthly_usd',
+  customInputPrice: 'usage_price_custom_input',
+  customOutputPrice: 'usage_price_custom_output'
+};
+
+// USD per 1M tokens. Thinking tokens are billed at the output rate.
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.0-flash-exp': { input: 0.10, output: 0.40 },
+  'gemini-2.0-flash-thinking-exp-01-21': { input: 0.10, output: 0.40 },
+  mock: { input: 0, output: 0 }
+};
+
+// Entries older than this are pruned; enough to cover the current and previous month.
+const LEDGER_RETENTION_DAYS = 62;
+const MAX_LEDGER_ENTRIES = 5000;
+
+export interface UsageEntry {
+  id: string;
+  at: string;
+  operationId: string;
+  task: LLMTask;
+  model: string;
+  promptTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  costUsd: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface UsageBudget {
+  dailyUsd: number | null;
+  monthlyUsd: number | null;
+}
+
+export interface OperationUsage extends UsageTotals {
+  operationId: string;
+  task: LLMTask;
+  at: string;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+const readNumber = (key: string): number | null => {
+  const value = parseFloat(localStorage.getItem(key) || '');
+  return Number.isFinite(value) && value >= 0 ? value : null;
+};
+
+// OpenAI-compatible endpoints are priced from settings (free by default, e.g. a local Ollama).
+const getModelPrice = (model: string): ModelPrice => {
+  if (MODEL_PRICES[model]) return MODEL_PRICES[model];
+  if (model.startsWith('openai:')) {
+    return {
+      input: readNumber(USAGE_STORAGE_KEYS.customInputPrice) ?? 0,
+      output: readNumber(USAGE_STORAGE_KEYS.customOutputPrice) ?? 0
+    };
+  }
+  return { input: 0, output: 0 };
+};
+
+export const estimateCostUsd = (model: string, usage: RawTokenUsage): number => {
+  const price = getModelPrice(model);
+  return (usage.promptTokens * price.input + (usage.outputTokens + usage.thinkingTokens) * price.output) / 1_000_000;
+};
+
+export const getLedger = (): UsageEntry[] => {
+  try {
+    const saved = localStorage.getItem(USAGE_STORAGE_KEYS.ledger);
+    return saved ? (JSON.parse(saved) as UsageEntry[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveLedger = (entries: UsageEntry[]) => {
+  const cutoff = Date.now() - LEDGER_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  const kept = entries.filter(e => Date.parse(e.at) >= cutoff).slice(-MAX_LEDGER_ENTRIES);
+  try {
+    localStorage.setItem(USAGE_STORAGE_KEYS.ledger, JSON.stringify(kept));
+  } catch (e) {
+    console.warn("Usage ledger write failed.", e);
+  }
+};
+
+export const clearLedger = () => localStorage.removeItem(USAGE_STORAGE_KEYS.ledger);
+
+export const createOperationId = (task: LLMTask) =>
+  `${task}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const recordUsage = (operationId: string, task: LLMTask, model: string, usage: RawTokenUsage): UsageEntry => {
+  const entry: UsageEntry = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    at: new Date().toISOString(),
+    operationId,
+    task,
+    model,
+    ...usage,
+    costUsd: estimateCostUsd(model, usage)
+  };
+  saveLedger([...getLedger(), entry]);
+  return entry;
+};
+
+export const emptyTokenUsage = (): TokenUsage => ({ promptTokens: 0, outputTokens: 0, thinkingTokens: 0, costUsd: 0 });
+
+export const addTokenUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  promptTokens: a.promptTokens + b.promptTokens,
+  outputTokens: a.outputTokens + b.outputTokens,
+  thinkingTokens: a.thinkingTokens + b.thinkingTokens,
+  costUsd: a.costUsd + b.costUsd
+});
+
+const sumEntries = (entries: UsageEntry[]): UsageTotals => entries.reduce<UsageTotals>((totals, e) => ({
+  calls: totals.calls + 1,
+  promptTokens: totals.promptTokens + e.promptTokens,
+  outputTokens: totals.outputTokens + e.outputTokens + e.thinkingTokens,
+  costUsd: totals.costUsd + e.costUsd
+}), { calls: 0, promptTokens: 0, outputTokens: 0, costUsd: 0 });
+
+// Days and months are bucketed in the user's local time zone.
+const startOfDay = (now: Date) => new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+const startOfMonth = (now: Date) => new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+
+export const getUsageTotals = (now = new Date()): { today: UsageTotals; month: UsageTotals } => {
+  const ledger = getLedger();
+  return {
+    today: sumEntries(ledger.filter(e => Date.parse(e.at) >= startOfDay(now))),
+    month: sumEntries(ledger.filter(e => Date.parse(e.at) >= startOfMonth(now)))
+  };
+};
+
+// Groups ledger entries into extractions, most recent first.
+export const getRecentOperations = (limit = 10): OperationUsage[] => {
+  const byId = new Map<string, UsageEntry[]>();
+  getLedger().forEach(e => byId.set(e.operationId, [...(byId.get(e.operationId) || []), e]));
+
+  return Array.from(byId.entries())
+    .map(([operationId, entries]) => ({
+      operationId,
+      task: entries[0].task,
+      at: entries[entries.length - 1].at,
+      ...sumEntries(entries)
+    }))
+    .sort((a, b) => b.at.localeCompare(a.at))
+    .slice(0, limit);
+};
+
+export const getBudget = (): UsageBudget => ({
+  dailyUsd: readNumber(USAGE_STORAGE_KEYS.dailyBudget),
+  monthlyUsd: readNumber(USAGE_STORAGE_KEYS.monthlyBudget)
+});
+
+export const formatUsd = (value: number): string =>
+  value > 0 && value < 0.01 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+
+/**
+ * Throws before a model call when today's or this month's spend has already
+ * reached the configured limit. Limits left blank are not enforced.
+ */
+export const assertWithinBudget = () => {
+  const budget = getBudget();
+  if (budget.dailyUsd === null && budget.monthlyUsd === null) return;
+
+  const { today, month } = getUsageTotals();
+  if (budget.dailyUsd !== null && today.costUsd >= budget.dailyUsd) {
+    throw new BudgetExceededError(`Daily budget of ${formatUsd(budget.dailyUsd)} reached (${formatUsd(today.costUsd)} spent today). Raise the limit in Settings to continue.`);
+  }
+  if (budget.monthlyUsd !== null && month.costUsd >= budget.monthlyUsd) {
+    throw new BudgetExceededError(`Monthly budget of ${formatUsd(budget.monthlyUsd)} reached (${formatUsd(month.costUsd)} spent this month). Raise the limit in Settings to continue.`);
+  }
+};